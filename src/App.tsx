@@ -1,24 +1,58 @@
-import { useState } from 'react'
-import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
+import { useEffect, useState } from 'react'
+import { BrowserRouter, Navigate, Route, Routes, useNavigate, useParams } from 'react-router-dom'
 
 import Library from './pages/Library'
 import Player from './pages/Player'
+import { getLastOpenedSong } from './lib/songLibrary'
+import { playerPath } from './lib/playerUrl'
 import './App.css'
 
+type PlayerRouteProps = {
+  onSelectSong: (songId: string) => void
+}
+
+// /player/:songId, with the session (position, speed, loop…) in the query string
+function PlayerRoute({ onSelectSong }: PlayerRouteProps) {
+  const { songId = null } = useParams()
+
+  useEffect(() => {
+    if (songId) onSelectSong(songId)
+  }, [songId, onSelectSong])
+
+  return <Player songId={songId} />
+}
+
+// Bare /player picks up the last song opened, or goes back to the library
+function ResumeLastSong() {
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    let cancelled = false
+    getLastOpenedSong()
+      .catch(() => undefined)
+      .then((song) => {
+        if (!cancelled) navigate(song ? playerPath(song.id) : '/', { replace: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [navigate])
+
+  return null
+}
+
 function App() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [selectedSongId, setSelectedSongId] = useState<string | null>(null)
 
   return (
     <BrowserRouter>
       <Routes>
         <Route
           path="/"
-          element={<Library selectedFile={selectedFile} onSelectFile={setSelectedFile} />}
-        />
-        <Route
-          path="/player"
-          element={<Player file={selectedFile} onSelectFile={setSelectedFile} />}
+          element={<Library selectedSongId={selectedSongId} onSelectSong={setSelectedSongId} />}
         />
+        <Route path="/player" element={<ResumeLastSong />} />
+        <Route path="/player/:songId" element={<PlayerRoute onSelectSong={setSelectedSongId} />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </BrowserRouter>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { VELOCITY_CURVES, type VelocityCurve } from '../lib/dynamics';
+
+interface DynamicsPanelProps {
+  curve: VelocityCurve;
+  showGraph: boolean;
+  onCurveChange: (curve: VelocityCurve) => void;
+  onShowGraphChange: (show: boolean) => void;
+  onClose: () => void;
+}
+
+const DynamicsPanel: React.FC<DynamicsPanelProps> = ({
+  curve,
+  showGraph,
+  onCurveChange,
+  onShowGraphChange,
+  onClose,
+}) => {
+  return (
+    <div className="side-panel dynamics-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Dynamics</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field wide-select">
+          <span>Velocity curve</span>
+          <select value={curve} onChange={(e) => onCurveChange(e.target.value as VelocityCurve)}>
+            {VELOCITY_CURVES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <p className="panel-hint">
+          Expanded makes loud notes louder and soft ones softer, so a melody stands out over its accompaniment;
+          compressed evens them out; fixed plays every note alike. Applies to playback and WAV export.
+        </p>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field checkbox">
+          <input type="checkbox" checked={showGraph} onChange={(e) => onShowGraphChange(e.target.checked)} />
+          <span>Dynamics graph under the scrubber</span>
+        </label>
+        <p className="panel-hint">
+          Falling notes are brighter the harder they're played in the file, whatever the curve.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DynamicsPanel;
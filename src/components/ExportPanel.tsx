@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadBlob, safeFileName } from '../lib/download';
+
+interface ExportPanelProps {
+  songTitle: string;
+  playbackSpeed: number;
+  estimatedSeconds: number;
+  onRender: (signal: AbortSignal, onProgress: (fraction: number) => void) => Promise<Blob>;
+  onClose: () => void;
+}
+
+type ExportStatus = 'idle' | 'rendering' | 'done' | 'error';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ songTitle, playbackSpeed, estimatedSeconds, onRender, onClose }) => {
+  const [status, setStatus] = useState<ExportStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel mid-render cancels it
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const fileName = `${safeFileName(songTitle)}${playbackSpeed !== 1 ? ` (${Math.round(playbackSpeed * 100)}%)` : ''}.wav`;
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('rendering');
+    setProgress(0);
+    try {
+      const blob = await onRender(controller.signal, setProgress);
+      if (controller.signal.aborted) return;
+      downloadBlob(blob, fileName);
+      setStatus('done');
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setStatus('idle');
+        return;
+      }
+      console.error('Export failed', e);
+      setStatus('error');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    setStatus('idle');
+  };
+
+  const minutes = Math.floor(estimatedSeconds / 60);
+  const seconds = Math.round(estimatedSeconds % 60).toString().padStart(2, '0');
+
+  return (
+    <div className="side-panel export-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Export WAV</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <p className="panel-hint">
+          Renders the song as you hear it: current mix, mute/solo and {Number(playbackSpeed.toFixed(2))}× speed.
+        </p>
+        <div className="panel-field">
+          <span>File</span>
+          <span className="export-file">{fileName}</span>
+        </div>
+        <div className="panel-field">
+          <span>Length</span>
+          <span>{minutes}:{seconds}</span>
+        </div>
+      </div>
+
+      <div className="panel-section">
+        {status === 'rendering' ? (
+          <>
+            <div className="export-progress">
+              <div style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <div className="panel-row">
+              <span className="panel-hint export-percent">Rendering… {Math.round(progress * 100)}%</span>
+              <button className="track-toggle wide" onClick={cancel}>Cancel</button>
+            </div>
+          </>
+        ) : (
+          <button className="track-toggle wide on" onClick={start}>
+            {status === 'done' ? 'Export again' : 'Export'}
+          </button>
+        )}
+        {status === 'done' && <p className="panel-hint">Saved {fileName}.</p>}
+        {status === 'error' && <p className="panel-hint export-error">Export failed. Please try again.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
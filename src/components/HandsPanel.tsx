@@ -0,0 +1,91 @@
+import React from 'react';
+import type { TrackInfo } from '../lib/trackMixer';
+import { DEFAULT_SPLIT, HAND_MODES, HANDS, type Hand, type HandMode, type HandSetup } from '../lib/hands';
+import { midiToNoteName } from '../lib/noteNames';
+import { PIANO_MAX, PIANO_MIN } from '../lib/transpose';
+
+interface HandsPanelProps {
+  tracks: TrackInfo[]; // Pitched tracks only; drums never belong to a hand
+  setup: HandSetup;
+  onChange: (setup: HandSetup) => void;
+  onClose: () => void;
+}
+
+const HandsPanel: React.FC<HandsPanelProps> = ({ tracks, setup, onChange, onClose }) => {
+  const { split } = setup;
+
+  const setMode = (hand: Hand, mode: HandMode) => onChange({ ...setup, modes: { ...setup.modes, [hand]: mode } });
+  const setTrackHand = (trackIndex: number, hand: Hand) => onChange({ ...setup, tracks: { ...setup.tracks, [trackIndex]: hand } });
+
+  return (
+    <div className="side-panel hands-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Hands</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        {HANDS.map(({ hand, label }) => (
+          <label key={hand} className="panel-field wide-select">
+            <span>{label}</span>
+            <select value={setup.modes[hand]} onChange={(e) => setMode(hand, e.target.value as HandMode)}>
+              {HAND_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <p className="panel-hint">A hand you play stays on screen but silent; scoring and wait mode then follow only that hand.</p>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field wide-select">
+          <span>Assign hands</span>
+          <select
+            value={split !== null ? 'split' : 'tracks'}
+            onChange={(e) => onChange({ ...setup, split: e.target.value === 'split' ? DEFAULT_SPLIT : null })}
+          >
+            <option value="tracks">By track</option>
+            <option value="split">By split point</option>
+          </select>
+        </label>
+        {split !== null && (
+          <label className="panel-field">
+            <span>Left hand below {midiToNoteName(split)}</span>
+            <input
+              type="number"
+              min={PIANO_MIN + 1}
+              max={PIANO_MAX}
+              value={split}
+              onChange={(e) => {
+                const next = parseInt(e.target.value, 10);
+                if (next > PIANO_MIN && next <= PIANO_MAX) onChange({ ...setup, split: next });
+              }}
+              title="Split point (MIDI note number)"
+            />
+          </label>
+        )}
+      </div>
+
+      {split === null && (
+        <ul className="track-list">
+          {tracks.length === 0 && <li className="side-panel-empty">This song has no note tracks.</li>}
+          {tracks.map(track => {
+            const hand = setup.tracks[track.index] ?? 'right';
+            return (
+              <li key={track.index} className="hand-track-row">
+                <span>{track.name}</span>
+                <div className="panel-row">
+                  <button className={`track-toggle ${hand === 'left' ? 'on' : ''}`} onClick={() => setTrackHand(track.index, 'left')} title="Left hand">L</button>
+                  <button className={`track-toggle ${hand === 'right' ? 'on' : ''}`} onClick={() => setTrackHand(track.index, 'right')} title="Right hand">R</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HandsPanel;
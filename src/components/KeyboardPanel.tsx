@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_SHORTCUTS,
+  MAX_PIANO_OCTAVE,
+  MIN_PIANO_OCTAVE,
+  SHORTCUT_ACTIONS,
+  keyLabel,
+  shortcutConflict,
+  type ShortcutAction,
+  type Shortcuts,
+} from '../lib/keybindings';
+
+interface KeyboardPanelProps {
+  shortcuts: Shortcuts;
+  pianoEnabled: boolean;
+  octave: number;
+  onShortcutsChange: (shortcuts: Shortcuts) => void;
+  onPianoEnabledChange: (enabled: boolean) => void;
+  onOctaveChange: (octave: number) => void;
+  onClose: () => void;
+}
+
+const KeyboardPanel: React.FC<KeyboardPanelProps> = ({
+  shortcuts,
+  pianoEnabled,
+  octave,
+  onShortcutsChange,
+  onPianoEnabledChange,
+  onOctaveChange,
+  onClose,
+}) => {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [conflict, setConflict] = useState<string | null>(null);
+
+  // While waiting for a key, grab it before the player's shortcuts see it
+  useEffect(() => {
+    if (!capturing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+      if (e.code === 'Escape') {
+        setCapturing(null);
+        setConflict(null);
+        return;
+      }
+      const problem = shortcutConflict(shortcuts, capturing, e.code);
+      setConflict(problem);
+      if (problem) return;
+      onShortcutsChange({ ...shortcuts, [capturing]: e.code });
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [capturing, shortcuts, onShortcutsChange]);
+
+  const isDefault = SHORTCUT_ACTIONS.every(({ action }) => shortcuts[action] === DEFAULT_SHORTCUTS[action]);
+
+  return (
+    <div className="side-panel keyboard-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Computer Keyboard</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field checkbox">
+          <input type="checkbox" checked={pianoEnabled} onChange={(e) => onPianoEnabledChange(e.target.checked)} />
+          <span>Play notes with the keyboard</span>
+        </label>
+        <div className="panel-field">
+          <span>Octave (A = C{octave})</span>
+          <div className="panel-row">
+            <button className="track-toggle" onClick={() => onOctaveChange(octave - 1)} disabled={octave <= MIN_PIANO_OCTAVE} title="Octave down">−</button>
+            <button className="track-toggle" onClick={() => onOctaveChange(octave + 1)} disabled={octave >= MAX_PIANO_OCTAVE} title="Octave up">+</button>
+          </div>
+        </div>
+        <p className="panel-hint">A S D F G H J K L play the white keys, W E T Y U O P the black keys.</p>
+      </div>
+
+      <div className="panel-section">
+        <p className="panel-hint">
+          {capturing
+            ? conflict ?? 'Press a key for this shortcut, or Escape to cancel.'
+            : 'Click a key to change it.'}
+        </p>
+      </div>
+
+      <ul className="track-list shortcut-list">
+        {SHORTCUT_ACTIONS.map(({ action, label }) => (
+          <li key={action} className="shortcut-row">
+            <span>{label}</span>
+            <button
+              className={`track-toggle wide shortcut-key ${capturing === action ? 'on' : ''}`}
+              onClick={() => {
+                setConflict(null);
+                setCapturing(capturing === action ? null : action);
+              }}
+            >
+              {capturing === action ? '…' : keyLabel(shortcuts[action])}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="panel-section">
+        <button
+          className="track-toggle wide"
+          onClick={() => {
+            setCapturing(null);
+            setConflict(null);
+            onShortcutsChange(DEFAULT_SHORTCUTS);
+          }}
+          disabled={isDefault}
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardPanel;
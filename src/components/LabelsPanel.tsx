@@ -0,0 +1,57 @@
+import React from 'react';
+import { LABEL_MODES, formatKey, type KeySignature, type LabelMode } from '../lib/noteLabels';
+
+interface LabelsPanelProps {
+  keyMode: LabelMode;
+  noteMode: LabelMode;
+  currentKey: KeySignature;
+  onKeyModeChange: (mode: LabelMode) => void;
+  onNoteModeChange: (mode: LabelMode) => void;
+  onClose: () => void;
+}
+
+const LabelsPanel: React.FC<LabelsPanelProps> = ({
+  keyMode,
+  noteMode,
+  currentKey,
+  onKeyModeChange,
+  onNoteModeChange,
+  onClose,
+}) => {
+  const modeSelect = (value: LabelMode, onChange: (mode: LabelMode) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value as LabelMode)}>
+      {LABEL_MODES.map(mode => (
+        <option key={mode.value} value={mode.value}>{mode.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="side-panel labels-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Labels</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field wide-select">
+          <span>On the keys</span>
+          {modeSelect(keyMode, onKeyModeChange)}
+        </label>
+        <label className="panel-field wide-select">
+          <span>On falling notes</span>
+          {modeSelect(noteMode, onNoteModeChange)}
+        </label>
+      </div>
+
+      <div className="panel-section">
+        <p className="panel-hint">
+          Scale degrees follow the key signature, now {formatKey(currentKey)}. Fingering comes from the file when it has
+          any, otherwise it's a suggestion per track; on the keys it shows for the notes being played.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LabelsPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import type { LoopRegion, SpeedTrainer } from '../lib/loop';
+
+interface LoopPanelProps {
+  region: LoopRegion | null;
+  enabled: boolean;
+  pendingStart: number | null;
+  formatTicks: (ticks: number) => string;
+  onMarkA: () => void;
+  onMarkB: () => void;
+  onToggle: () => void;
+  onClear: () => void;
+  trainer: SpeedTrainer;
+  cleanReps: number;
+  playbackSpeed: number;
+  onTrainerChange: (patch: Partial<SpeedTrainer>) => void;
+  onClose: () => void;
+}
+
+const LoopPanel: React.FC<LoopPanelProps> = ({
+  region,
+  enabled,
+  pendingStart,
+  formatTicks,
+  onMarkA,
+  onMarkB,
+  onToggle,
+  onClear,
+  trainer,
+  cleanReps,
+  playbackSpeed,
+  onTrainerChange,
+  onClose,
+}) => {
+  const numberField = (label: string, key: keyof Omit<SpeedTrainer, 'enabled'>, min: number, max: number, step: number) => (
+    <label className="panel-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={trainer[key]}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (!Number.isNaN(value)) onTrainerChange({ [key]: Math.min(max, Math.max(min, value)) });
+        }}
+      />
+    </label>
+  );
+
+  return (
+    <div className="side-panel loop-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>A–B Loop</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <div className="loop-points">
+          <button className="track-toggle" onClick={onMarkA} title="Set A at the playhead">A</button>
+          <span>{region ? formatTicks(region.startTicks) : pendingStart !== null ? formatTicks(pendingStart) : '—'}</span>
+          <button className="track-toggle" onClick={onMarkB} title="Set B at the playhead">B</button>
+          <span>{region ? formatTicks(region.endTicks) : '—'}</span>
+        </div>
+        <p className="panel-hint">Shift-click the waterfall to mark A, then B, at that point.</p>
+        <div className="panel-row">
+          <button className={`track-toggle wide ${enabled && region ? 'on' : ''}`} onClick={onToggle} disabled={!region}>
+            {enabled && region ? 'Looping' : 'Loop off'}
+          </button>
+          <button className="track-toggle wide" onClick={onClear} disabled={!region && pendingStart === null}>
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field checkbox">
+          <input
+            type="checkbox"
+            checked={trainer.enabled}
+            onChange={(e) => onTrainerChange({ enabled: e.target.checked })}
+          />
+          <span>Speed trainer</span>
+        </label>
+        {numberField('Start speed', 'startSpeed', 0.2, 2, 0.05)}
+        {numberField('Step', 'step', 0.01, 0.5, 0.01)}
+        {numberField('Clean reps per step', 'cleanRepsPerStep', 1, 20, 1)}
+        {numberField('Target speed', 'targetSpeed', 0.2, 2, 0.05)}
+        {trainer.enabled && (
+          <p className="panel-hint">
+            {playbackSpeed.toFixed(2)}× · {cleanReps}/{trainer.cleanRepsPerStep} clean reps
+            {playbackSpeed >= trainer.targetSpeed ? ' · target reached' : ''}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoopPanel;
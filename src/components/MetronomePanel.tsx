@@ -0,0 +1,72 @@
+import React from 'react';
+import { COUNT_IN_BAR_OPTIONS, type MetronomeSettings } from '../lib/metronome';
+
+interface MetronomePanelProps {
+  settings: MetronomeSettings;
+  meter: [number, number];
+  onChange: (patch: Partial<MetronomeSettings>) => void;
+  onClose: () => void;
+}
+
+const MetronomePanel: React.FC<MetronomePanelProps> = ({ settings, meter, onChange, onClose }) => {
+  return (
+    <div className="side-panel metronome-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Metronome</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field checkbox">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+          />
+          <span>Click along with the song</span>
+        </label>
+        <label className="panel-field">
+          <span>Volume</span>
+          <input
+            type="range"
+            className="metronome-volume"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            onChange={(e) => onChange({ volume: Number(e.target.value) })}
+          />
+        </label>
+        <p className="panel-hint">
+          Follows the song's time signatures and tempo changes, now {meter[0]}/{meter[1]}, with an accent on each
+          downbeat. Turn the volume all the way down to keep just the beat pulse next to the play button.
+        </p>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field">
+          <span>Count-in</span>
+          <select
+            value={settings.countInBars}
+            onChange={(e) => onChange({ countInBars: Number(e.target.value) })}
+          >
+            {COUNT_IN_BAR_OPTIONS.map(bars => (
+              <option key={bars} value={bars}>{bars === 0 ? 'Off' : `${bars} bar${bars > 1 ? 's' : ''}`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="panel-field checkbox">
+          <input
+            type="checkbox"
+            checked={settings.countInOnLoop}
+            disabled={settings.countInBars === 0}
+            onChange={(e) => onChange({ countInOnLoop: e.target.checked })}
+          />
+          <span>Count in before each loop repetition</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MetronomePanel;
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { MidiInputDevice, MidiInputStatus } from '../hooks/useMidiInput';
+
+interface MidiInputControlProps {
+  status: MidiInputStatus;
+  devices: MidiInputDevice[];
+  selectedId: string | null;
+  activeDevice: MidiInputDevice | null;
+  onSelectDevice: (id: string | null) => void;
+}
+
+const STATUS_LABELS: Record<MidiInputStatus, string> = {
+  unsupported: 'Web MIDI not supported in this browser',
+  pending: 'Waiting for MIDI permission…',
+  denied: 'MIDI access was denied',
+  ready: '',
+};
+
+const MidiInputControl: React.FC<MidiInputControlProps> = ({
+  status,
+  devices,
+  selectedId,
+  activeDevice,
+  onSelectDevice,
+}) => {
+  if (status !== 'ready') {
+    return (
+      <span className="midi-input-status" title={STATUS_LABELS[status]}>
+        🎹✕
+      </span>
+    );
+  }
+
+  // Keep a remembered-but-unplugged device in the list so the choice survives hot-plugging
+  const isMissing = selectedId !== null && !devices.some(d => d.id === selectedId);
+
+  return (
+    <label className={`midi-input-control ${activeDevice ? 'connected' : ''}`} title="MIDI input device">
+      <span className="midi-input-dot" />
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelectDevice(e.target.value || null)}
+      >
+        <option value="">{devices.length > 0 ? 'Auto (first device)' : 'No MIDI devices'}</option>
+        {isMissing && <option value={selectedId}>Disconnected device</option>}
+        {devices.map(d => (
+          <option key={d.id} value={d.id}>{d.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default MidiInputControl;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { formatMinutes, type Playlist, type SongRecord } from '../lib/songLibrary';
+
+interface PlaylistSectionProps {
+  playlists: Playlist[];
+  songs: SongRecord[];
+  onPlay: (playlist: Playlist) => void;
+  onCreate: (name: string) => void;
+  onChange: (playlist: Playlist) => void; // Renamed, reordered or a song removed
+  onDelete: (playlist: Playlist) => void;
+}
+
+// Moves songIds[index] one place up (-1) or down (1)
+function moveSong(playlist: Playlist, index: number, step: -1 | 1): Playlist {
+  const songIds = [...playlist.songIds];
+  [songIds[index], songIds[index + step]] = [songIds[index + step], songIds[index]];
+  return { ...playlist, songIds };
+}
+
+const PlaylistSection: React.FC<PlaylistSectionProps> = ({ playlists, songs, onPlay, onCreate, onChange, onDelete }) => {
+  const [draftName, setDraftName] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const byId = new Map(songs.map(song => [song.id, song]));
+
+  const create = () => {
+    if (!draftName.trim()) return;
+    onCreate(draftName);
+    setDraftName('');
+  };
+
+  return (
+    <section className="playlists">
+      <div className="library-toolbar">
+        <h2 className="playlists-heading">Playlists</h2>
+        <input
+          className="song-rename"
+          placeholder="New playlist name"
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') create(); }}
+        />
+        <button onClick={create} disabled={!draftName.trim()}>Create</button>
+      </div>
+
+      {playlists.length === 0 && (
+        <p className="library-empty">No playlists yet. Create one, then add songs with “Add to playlist”.</p>
+      )}
+
+      <ul className="song-list">
+        {playlists.map(playlist => {
+          const entries = playlist.songIds.map(id => byId.get(id)).filter((song): song is SongRecord => !!song);
+          const total = entries.reduce((sum, song) => sum + song.duration, 0);
+          const isOpen = openId === playlist.id;
+          return (
+            <li key={playlist.id} className="song-row playlist-row">
+              <div className="playlist-summary">
+                <div className="song-row-main">
+                  <button className="song-title-btn" onClick={() => setOpenId(isOpen ? null : playlist.id)}>
+                    {isOpen ? '▾' : '▸'} {playlist.name}
+                  </button>
+                  <span className="song-row-meta">
+                    {entries.length} {entries.length === 1 ? 'song' : 'songs'}
+                    {entries.length > 0 && ` · ${formatMinutes(total)}`}
+                  </span>
+                </div>
+                <div className="song-row-actions">
+                  <button className="primary" onClick={() => onPlay(playlist)} disabled={entries.length === 0}>
+                    Play
+                  </button>
+                  <button
+                    onClick={() => {
+                      const name = window.prompt('Rename playlist', playlist.name);
+                      if (name !== null && name.trim()) onChange({ ...playlist, name: name.trim() });
+                    }}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    className="danger"
+                    onClick={() => {
+                      if (window.confirm(`Delete the playlist "${playlist.name}"? Its songs stay in your library.`)) onDelete(playlist);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {isOpen && (
+                <ol className="playlist-songs">
+                  {entries.length === 0 && <li className="library-empty">Empty.</li>}
+                  {entries.map((song, i) => (
+                    <li key={song.id}>
+                      <span className="playlist-song-title">{song.title}</span>
+                      <button onClick={() => onChange(moveSong(playlist, playlist.songIds.indexOf(song.id), -1))} disabled={i === 0} title="Move up">↑</button>
+                      <button onClick={() => onChange(moveSong(playlist, playlist.songIds.indexOf(song.id), 1))} disabled={i === entries.length - 1} title="Move down">↓</button>
+                      <button
+                        className="danger"
+                        onClick={() => onChange({ ...playlist, songIds: playlist.songIds.filter(id => id !== song.id) })}
+                        title="Remove from playlist"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default PlaylistSection;
@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { formatMinutes, type SongRecord } from '../lib/songLibrary';
+import { MAX_SPEED } from '../lib/playerUrl';
+import {
+  latestSession,
+  practiceByDay,
+  practiceStreak,
+  songProgress,
+  type PracticeSession,
+  type SongProgress,
+} from '../lib/practiceHistory';
+
+interface PracticeDashboardProps {
+  sessions: PracticeSession[];
+  songs: SongRecord[];
+  onContinue: (session: PracticeSession) => void; // Reopen the song where the session left off
+}
+
+const DAYS_CHARTED = 14;
+const WEEK_DAYS = 7;
+const SESSIONS_CHARTED = 20; // Per song, the latest ones
+
+// SVG units; the charts stretch to their boxes
+const DAY_CHART = { width: 280, height: 64, gap: 4 };
+const SONG_CHART = { width: 240, height: 48, gap: 2 };
+
+function formatPosition(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatDays(days: number) {
+  return `${days} ${days === 1 ? 'day' : 'days'}`;
+}
+
+// Minutes per day, today last
+const DailyChart: React.FC<{ sessions: PracticeSession[] }> = ({ sessions }) => {
+  const days = practiceByDay(sessions, DAYS_CHARTED);
+  const most = Math.max(...days.map(d => d.seconds), 60);
+  const barWidth = (DAY_CHART.width - DAY_CHART.gap * (days.length - 1)) / days.length;
+  return (
+    <svg className="practice-chart" viewBox={`0 0 ${DAY_CHART.width} ${DAY_CHART.height}`} preserveAspectRatio="none">
+      {days.map((d, i) => {
+        const height = Math.max((d.seconds / most) * DAY_CHART.height, d.seconds > 0 ? 2 : 1);
+        return (
+          <rect
+            key={d.day}
+            className={d.seconds > 0 ? 'practice-bar' : 'practice-bar empty'}
+            x={i * (barWidth + DAY_CHART.gap)}
+            y={DAY_CHART.height - height}
+            width={barWidth}
+            height={height}
+          >
+            <title>{`${new Date(`${d.day}T00:00:00`).toLocaleDateString()}: ${formatMinutes(d.seconds)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Per session: minutes as bars, best accuracy & top speed as lines over them
+const SongChart: React.FC<{ progress: SongProgress }> = ({ progress }) => {
+  const sessions = progress.sessions.slice(-SESSIONS_CHARTED);
+  const most = Math.max(...sessions.map(s => s.seconds));
+  const slot = SONG_CHART.width / sessions.length;
+  const x = (i: number) => i * slot + slot / 2;
+  const y = (fraction: number) => SONG_CHART.height - fraction * SONG_CHART.height;
+  const line = (points: { i: number; fraction: number }[]) => points.map(p => `${x(p.i)},${y(p.fraction)}`).join(' ');
+
+  const accuracy = sessions
+    .map((s, i) => ({ i, fraction: s.accuracies.length > 0 ? Math.max(...s.accuracies) : -1 }))
+    .filter(p => p.fraction >= 0);
+  const speed = sessions.map((s, i) => ({ i, fraction: Math.min(s.topSpeed / MAX_SPEED, 1) }));
+
+  return (
+    <svg className="practice-chart song" viewBox={`0 0 ${SONG_CHART.width} ${SONG_CHART.height}`} preserveAspectRatio="none">
+      {sessions.map((s, i) => {
+        const height = Math.max((s.seconds / most) * SONG_CHART.height, 2);
+        return (
+          <rect
+            key={s.id}
+            className="practice-bar"
+            x={i * slot + SONG_CHART.gap / 2}
+            y={SONG_CHART.height - height}
+            width={slot - SONG_CHART.gap}
+            height={height}
+          >
+            <title>
+              {`${new Date(s.startedAt).toLocaleDateString()}: ${formatMinutes(s.seconds)}, up to ${formatPercent(s.topSpeed)} speed`
+                + (s.accuracies.length > 0 ? `, best ${formatPercent(Math.max(...s.accuracies))} accuracy` : '')}
+            </title>
+          </rect>
+        );
+      })}
+      {sessions.length > 1 && <polyline className="practice-line speed" points={line(speed)} />}
+      {accuracy.length > 1 && <polyline className="practice-line accuracy" points={line(accuracy)} />}
+    </svg>
+  );
+};
+
+const PracticeDashboard: React.FC<PracticeDashboardProps> = ({ sessions, songs, onContinue }) => {
+  const byId = useMemo(() => new Map(songs.map(song => [song.id, song])), [songs]);
+  const streak = useMemo(() => practiceStreak(sessions), [sessions]);
+  const progress = useMemo(() => songProgress(sessions).filter(p => byId.has(p.songId)), [sessions, byId]);
+  const latest = useMemo(() => latestSession(sessions.filter(s => byId.has(s.songId))), [sessions, byId]);
+  const week = practiceByDay(sessions, WEEK_DAYS).reduce((sum, d) => sum + d.seconds, 0);
+  const total = sessions.reduce((sum, s) => sum + s.seconds, 0);
+
+  return (
+    <section className="practice">
+      <div className="library-toolbar">
+        <h2 className="playlists-heading">Practice</h2>
+      </div>
+
+      <div className="practice-overview">
+        <dl className="practice-stats">
+          <div>
+            <dt>Streak</dt>
+            <dd>{formatDays(streak.current)}</dd>
+          </div>
+          <div>
+            <dt>Best streak</dt>
+            <dd>{formatDays(streak.best)}</dd>
+          </div>
+          <div>
+            <dt>This week</dt>
+            <dd>{formatMinutes(week)}</dd>
+          </div>
+          <div>
+            <dt>All time</dt>
+            <dd>{formatMinutes(total)}</dd>
+          </div>
+        </dl>
+
+        <div className="practice-days">
+          <span className="song-row-meta">Last {DAYS_CHARTED} days</span>
+          <DailyChart sessions={sessions} />
+        </div>
+      </div>
+
+      {latest && (
+        <div className="song-row practice-continue">
+          <div className="song-row-main">
+            <span className="song-row-meta">Continue where you left off</span>
+            <span className="practice-song-title">{byId.get(latest.songId)!.title}</span>
+            <span className="song-row-meta">
+              {formatPosition(latest.resume.position ?? 0)}
+              {latest.resume.speed !== undefined && ` · ${formatPercent(latest.resume.speed)} speed`}
+              {latest.resume.loop && ' · looping a section'}
+              {!!latest.resume.transpose && ` · transposed ${latest.resume.transpose > 0 ? '+' : ''}${latest.resume.transpose}`}
+              {' · '}
+              {new Date(latest.updatedAt).toLocaleString()}
+            </span>
+          </div>
+          <div className="song-row-actions">
+            <button className="primary" onClick={() => onContinue(latest)}>Continue</button>
+          </div>
+        </div>
+      )}
+
+      <ul className="song-list">
+        {progress.map(p => {
+          const loops = p.sessions.reduce((sum, s) => sum + s.loops.reduce((n, l) => n + l.repetitions, 0), 0);
+          return (
+            <li key={p.songId} className="song-row practice-row">
+              <div className="song-row-main">
+                <span className="practice-song-title">{byId.get(p.songId)!.title}</span>
+                <span className="song-row-meta">
+                  {p.sessions.length} {p.sessions.length === 1 ? 'session' : 'sessions'}
+                  {' · '}
+                  {formatMinutes(p.seconds)}
+                  {p.topSpeed > 0 && ` · up to ${formatPercent(p.topSpeed)} speed`}
+                  {loops > 0 && ` · ${loops} loop ${loops === 1 ? 'pass' : 'passes'}`}
+                  {p.bestAccuracy !== null && ` · best ${formatPercent(p.bestAccuracy)} accuracy`}
+                  {' · '}
+                  Last {new Date(p.lastPracticedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <SongChart progress={p} />
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default PracticeDashboard;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { REPEAT_MODES, queuedSongs, type PlayQueue, type RepeatMode } from '../lib/queue';
+
+interface QueuePanelProps {
+  queue: PlayQueue;
+  titles: Record<string, string>; // songId -> title; songs missing here were deleted
+  currentId: string | null;
+  onPlay: (songId: string) => void;
+  onShuffleChange: (shuffle: boolean) => void;
+  onRepeatChange: (repeat: RepeatMode) => void;
+  onClose: () => void;
+}
+
+const QueuePanel: React.FC<QueuePanelProps> = ({
+  queue,
+  titles,
+  currentId,
+  onPlay,
+  onShuffleChange,
+  onRepeatChange,
+  onClose,
+}) => {
+  const songs = queuedSongs(queue).filter(id => titles[id] !== undefined);
+
+  return (
+    <div className="side-panel queue-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>{queue.source ? `Queue · ${queue.source}` : 'Queue'}</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field checkbox">
+          <input type="checkbox" checked={queue.shuffle} onChange={(e) => onShuffleChange(e.target.checked)} />
+          <span>Shuffle</span>
+        </label>
+        <label className="panel-field wide-select">
+          <span>Repeat</span>
+          <select value={queue.repeat} onChange={(e) => onRepeatChange(e.target.value as RepeatMode)}>
+            {REPEAT_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </label>
+        <p className="panel-hint">The next song starts when this one ends, unless a loop is on or a take is being recorded.</p>
+      </div>
+
+      {songs.length === 0 && <p className="side-panel-empty">Open a song or a playlist from the library to fill the queue.</p>}
+
+      <ol className="track-list queue-list">
+        {songs.map((id, i) => (
+          <li key={id} className={`track-row queue-row ${id === currentId ? 'current' : ''}`}>
+            <span className="queue-position">{id === currentId ? '▶' : i + 1}</span>
+            <button className="queue-title" onClick={() => onPlay(id)} title="Play now">
+              {titles[id]}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default QueuePanel;
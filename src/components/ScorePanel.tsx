@@ -0,0 +1,75 @@
+import React from 'react';
+import type { ScoringWindows } from '../lib/scoring';
+
+interface ScorePanelProps {
+  windows: ScoringWindows;
+  isScoring: boolean;
+  live: { hits: number; extras: number };
+  hasReport: boolean;
+  onWindowsChange: (patch: Partial<ScoringWindows>) => void;
+  onToggleScoring: () => void;
+  onShowReport: () => void;
+  onClose: () => void;
+}
+
+const ScorePanel: React.FC<ScorePanelProps> = ({
+  windows,
+  isScoring,
+  live,
+  hasReport,
+  onWindowsChange,
+  onToggleScoring,
+  onShowReport,
+  onClose,
+}) => {
+  const msField = (label: string, key: keyof ScoringWindows, min: number, max: number) => (
+    <label className="panel-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={5}
+        value={windows[key]}
+        disabled={isScoring}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (!Number.isNaN(value)) onWindowsChange({ [key]: Math.min(max, Math.max(min, value)) });
+        }}
+      />
+    </label>
+  );
+
+  return (
+    <div className="side-panel score-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Scoring</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <button className={`track-toggle wide ${isScoring ? 'on' : ''}`} onClick={onToggleScoring}>
+          {isScoring ? 'Finish run' : 'Start scored run'}
+        </button>
+        {isScoring ? (
+          <p className="panel-hint">
+            {live.hits} hits · {live.extras} extra notes. Pausing, reaching the end or looping back finishes the run.
+          </p>
+        ) : (
+          <p className="panel-hint">Plays from the playhead and scores the visible tracks against what you play.</p>
+        )}
+        {hasReport && !isScoring && (
+          <button className="track-toggle wide" onClick={onShowReport}>Show last report</button>
+        )}
+      </div>
+
+      <div className="panel-section">
+        {msField('On time within (ms)', 'perfectMs', 10, 200)}
+        {msField('Counts as a hit within (ms)', 'hitMs', 50, 500)}
+        <p className="panel-hint">Timing is measured at the playback speed you practise at.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ScorePanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import type { MeasureScore, ScoreReport } from '../lib/scoring';
+
+interface ScoreSummaryProps {
+  report: ScoreReport;
+  onSeek: (ticks: number) => void;
+  onClose: () => void;
+}
+
+// Measures below this are listed as the ones to work on
+const WEAK_MEASURE_ACCURACY = 0.8;
+const WEAK_MEASURES_SHOWN = 5;
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Red (0%) through amber to green (100%)
+function heatColor(measure: MeasureScore) {
+  if (measure.expected === 0 && measure.extras === 0) return 'rgba(255, 255, 255, 0.06)';
+  return `hsl(${Math.round(measure.accuracy * 120)}, 70%, 45%)`;
+}
+
+const ScoreSummary: React.FC<ScoreSummaryProps> = ({ report, onSeek, onClose }) => {
+  const weakest = report.measures
+    .filter(m => m.expected + m.extras > 0 && m.accuracy < WEAK_MEASURE_ACCURACY)
+    .sort((a, b) => a.accuracy - b.accuracy)
+    .slice(0, WEAK_MEASURES_SHOWN);
+
+  const timing = Math.round(report.meanDeviationMs);
+
+  return (
+    <div className="score-summary-backdrop" onClick={onClose}>
+      <div className="score-summary" onClick={(e) => e.stopPropagation()}>
+        <div className="side-panel-header">
+          <h2>Run report</h2>
+          <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <div className="score-headline">
+          <span className="score-accuracy">{percent(report.accuracy)}</span>
+          <span className="panel-hint">accuracy over {report.measures.length} {report.measures.length === 1 ? 'bar' : 'bars'}</span>
+        </div>
+
+        <dl className="score-stats">
+          <div><dt>Hits</dt><dd>{report.hits} / {report.expected}</dd></div>
+          <div><dt>Missed</dt><dd>{report.misses}</dd></div>
+          <div><dt>Extra notes</dt><dd>{report.extras}</dd></div>
+          <div><dt>On time</dt><dd>{report.perfect}</dd></div>
+          <div><dt>Early / late</dt><dd>{report.early} / {report.late}</dd></div>
+          <div>
+            <dt>Average timing</dt>
+            <dd>{report.hits === 0 ? '—' : timing === 0 ? 'on the beat' : `${Math.abs(timing)} ms ${timing < 0 ? 'early' : 'late'}`}</dd>
+          </div>
+          <div><dt>Off by (avg)</dt><dd>{report.hits === 0 ? '—' : `±${Math.round(report.meanAbsDeviationMs)} ms`}</dd></div>
+          <div><dt>Dynamics</dt><dd>{report.hits === 0 ? '—' : percent(report.velocityAccuracy)}</dd></div>
+        </dl>
+
+        <div className="score-heatmap" title="Accuracy per bar; click a bar to practise it">
+          {report.measures.map(measure => (
+            <button
+              key={measure.bar}
+              className="score-heat-cell"
+              style={{ background: heatColor(measure) }}
+              onClick={() => onSeek(measure.startTicks)}
+              title={`Bar ${measure.bar}: ${percent(measure.accuracy)} (${measure.hits}/${measure.expected}${measure.extras ? `, ${measure.extras} extra` : ''})`}
+            />
+          ))}
+        </div>
+        <div className="score-heatmap-axis">
+          <span>Bar {report.measures[0]?.bar ?? 1}</span>
+          <span>Bar {report.measures[report.measures.length - 1]?.bar ?? 1}</span>
+        </div>
+
+        {weakest.length > 0 ? (
+          <div className="score-weak">
+            <span className="panel-hint">Work on</span>
+            {weakest.map(measure => (
+              <button key={measure.bar} className="track-toggle wide" onClick={() => onSeek(measure.startTicks)}>
+                Bar {measure.bar} · {percent(measure.accuracy)}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="panel-hint score-weak">Every bar was above {percent(WEAK_MEASURE_ACCURACY)}. Nice.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreSummary;
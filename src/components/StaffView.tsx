@@ -0,0 +1,433 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Hand } from '../lib/hands';
+import type { Clef, GrandStaff, StaffEvent, StaffMeasure } from '../lib/staff';
+
+// above = a strip over the falling notes, replace = in their place
+export type StaffViewMode = 'off' | 'above' | 'replace';
+
+interface StaffViewProps {
+  staff: GrandStaff;
+  mode: Exclude<StaffViewMode, 'off'>;
+  getTicks: () => number; // Playhead, read every frame
+  onSeek: (ticks: number) => void;
+  style?: React.CSSProperties;
+}
+
+interface PlacedEvent {
+  event: StaffEvent;
+  x: number;
+  tieToX: number | null; // Where the staff's next event sits, for ties
+}
+
+interface PlacedMeasure {
+  measure: StaffMeasure;
+  previousFifths: number;
+  x: number;
+  width: number;
+  keyX: number;
+  meterX: number;
+  anchors: { ticks: number; x: number }[]; // Onsets -> x, for the cursor
+  events: Record<Hand, PlacedEvent[]>;
+}
+
+interface StaffLayout {
+  measures: PlacedMeasure[];
+  width: number;
+}
+
+// --- Geometry (px at scale 1) ---
+const STEP = 4;                 // One diatonic step; staff lines are two apart
+const STAFF_HEIGHT = STEP * 8;
+const STAFF_TOPS: Record<Hand, number> = { right: 40, left: 128 };
+const VIEW_HEIGHT = 200;
+const CLEF_WIDTH = 40;          // Clefs stay pinned at the left edge
+const KEY_ACCIDENTAL_WIDTH = 7;
+const METER_WIDTH = 20;
+const COLUMN_BASE = 18;
+const COLUMN_PER_LENGTH = 10;   // Extra room per doubling of a note's length
+const ACCIDENTAL_ROOM = 9;
+const BAR_PADDING = 8;
+const STEM_LENGTH = 26;
+const LAYOUT_TAIL = 400;        // Room to scroll the last bar under the cursor
+const SCALES: Record<Exclude<StaffViewMode, 'off'>, number> = { above: 1, replace: 1.6 };
+
+const INK = '#1f2937';
+const PAPER = '#f5f1e8';
+const FAINT = '#94a3b8';
+
+// Top line of each clef, in diatonic steps (F5, A3)
+const TOP_STEPS: Record<Clef, number> = { treble: 45, bass: 33 };
+// Key signature accidentals on the treble staff, in order; the bass staff is two octaves down
+const SHARP_STEPS = [45, 42, 46, 43, 40, 44, 41];
+const FLAT_STEPS = [41, 44, 40, 43, 39, 42, 38];
+const ACCIDENTAL_GLYPHS = { sharp: '♯', flat: '♭', natural: '♮' };
+const CLEF_GLYPHS: Record<Clef, string> = { treble: '𝄞', bass: '𝄢' };
+
+function staffY(hand: Hand, clef: Clef, step: number) {
+  return STAFF_TOPS[hand] + (TOP_STEPS[clef] - step) * STEP;
+}
+
+function keySteps(clef: Clef, fifths: number) {
+  const steps = (fifths > 0 ? SHARP_STEPS : FLAT_STEPS).slice(0, Math.abs(fifths));
+  return clef === 'bass' ? steps.map(s => s - 14) : steps;
+}
+
+function layoutStaff(staff: GrandStaff): StaffLayout {
+  const grid = staff.ppq / 4;
+  const measures: PlacedMeasure[] = [];
+  let x = 0;
+  staff.measures.forEach((measure, index) => {
+    const previousFifths = index > 0 ? staff.measures[index - 1].fifths : 0;
+    let at = x + (index === 0 ? CLEF_WIDTH : 6);
+    const keyX = at;
+    if (measure.keyChanged) at += Math.max(Math.abs(measure.fifths), index > 0 ? Math.abs(previousFifths) : 0) * KEY_ACCIDENTAL_WIDTH + 4;
+    const meterX = at;
+    if (measure.meterChanged) at += METER_WIDTH;
+    at += BAR_PADDING;
+
+    const onsets = [...new Set([...measure.staves.right, ...measure.staves.left].map(e => e.ticks))].sort((a, b) => a - b);
+    const withAccidentals = new Set(
+      [...measure.staves.right, ...measure.staves.left]
+        .filter(e => e.heads.some(h => h.accidental))
+        .map(e => e.ticks)
+    );
+    const anchors = onsets.map((ticks, i) => {
+      const length = (onsets[i + 1] ?? measure.endTicks) - ticks;
+      const column = at + (withAccidentals.has(ticks) ? ACCIDENTAL_ROOM : 0);
+      at = column + COLUMN_BASE + COLUMN_PER_LENGTH * Math.log2(1 + length / grid);
+      return { ticks, x: column };
+    });
+    const columnX = new Map(anchors.map(a => [a.ticks, a.x]));
+    const end = at + BAR_PADDING / 2;
+    anchors.push({ ticks: measure.endTicks, x: end });
+
+    const place = (events: StaffEvent[]): PlacedEvent[] => events.map(event => ({
+      event,
+      // A whole-bar rest sits in the middle of its bar
+      x: event.wholeBar ? (columnX.get(event.ticks)! + end) / 2 - 4 : columnX.get(event.ticks)!,
+      tieToX: null,
+    }));
+    measures.push({
+      measure,
+      previousFifths,
+      x,
+      width: end - x,
+      keyX,
+      meterX,
+      anchors,
+      events: { right: place(measure.staves.right), left: place(measure.staves.left) },
+    });
+    x = end;
+  });
+
+  // Ties run to the staff's next event, which may be in the next bar
+  (['right', 'left'] as Hand[]).forEach(hand => {
+    const placed = measures.flatMap(m => m.events[hand]);
+    placed.forEach((p, i) => {
+      if (p.event.heads.some(h => h.tied) && placed[i + 1]) p.tieToX = placed[i + 1].x;
+    });
+  });
+  return { measures, width: x };
+}
+
+// First bar ending after `x`
+function measureAtX(layout: StaffLayout, x: number) {
+  let lo = 0;
+  let hi = layout.measures.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    const m = layout.measures[mid];
+    if (m.x + m.width < x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Bar containing `ticks`
+function measureAtTicks(layout: StaffLayout, ticks: number) {
+  let lo = 0;
+  let hi = layout.measures.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (layout.measures[mid].measure.startTicks <= ticks) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+// The cursor glides between onsets rather than jumping from note to note
+function cursorX(placed: PlacedMeasure, ticks: number) {
+  const { anchors } = placed;
+  for (let i = 0; i < anchors.length - 1; i++) {
+    const a = anchors[i];
+    const b = anchors[i + 1];
+    if (ticks < b.ticks) {
+      const f = Math.max(0, (ticks - a.ticks) / (b.ticks - a.ticks));
+      return a.x + f * (b.x - a.x);
+    }
+  }
+  return anchors[anchors.length - 1].x;
+}
+
+function renderRest(key: string, event: StaffEvent, x: number, top: number) {
+  const dot = event.dotted && <circle cx={x + 8} cy={top + 13} r={1.5} fill={INK} />;
+  switch (event.value) {
+    case 1:
+      return <rect key={key} x={x - 5} y={top + 8} width={10} height={4} fill={INK} />;
+    case 2:
+      return <g key={key}><rect x={x - 5} y={top + 12} width={10} height={4} fill={INK} />{dot}</g>;
+    case 4:
+      return (
+        <g key={key}>
+          <path d={`M${x - 2} ${top + 6} l5 6 l-4 5 l5 6 q-6 -2 -4 4`} stroke={INK} strokeWidth={2} fill="none" />
+          {dot}
+        </g>
+      );
+    default: {
+      const flags = event.value === 16 ? 2 : 1;
+      return (
+        <g key={key}>
+          <line x1={x + 3} y1={top + 10} x2={x - 1} y2={top + 26} stroke={INK} strokeWidth={1.4} />
+          {Array.from({ length: flags }, (_, i) => (
+            <circle key={i} cx={x - 1 - i * 2} cy={top + 11 + i * 6} r={2} fill={INK} />
+          ))}
+          {dot}
+        </g>
+      );
+    }
+  }
+}
+
+function renderChord(key: string, hand: Hand, clef: Clef, placed: PlacedEvent) {
+  const { event, x, tieToX } = placed;
+  const top = STAFF_TOPS[hand];
+  if (event.heads.length === 0) return renderRest(key, event, x, top);
+
+  const topStep = TOP_STEPS[clef];
+  const bottomStep = topStep - 8;
+  const heads = [...event.heads].sort((a, b) => a.step - b.step);
+  const average = heads.reduce((sum, h) => sum + h.step, 0) / heads.length;
+  const stemUp = average < topStep - 4;
+  // Seconds can't share a column: every other head of a cluster goes to the far side of the stem
+  let displacedPrevious = false;
+  const offsets = heads.map((head, i) => {
+    const displaced = i > 0 && head.step - heads[i - 1].step === 1 && !displacedPrevious;
+    displacedPrevious = displaced;
+    return displaced ? (stemUp ? 9 : -9) : 0;
+  });
+  const ys = heads.map(h => staffY(hand, clef, h.step));
+  const filled = event.value >= 4;
+  const stemX = stemUp ? x + 4.4 : x - 4.4;
+  const stemFrom = stemUp ? Math.max(...ys) : Math.min(...ys);
+  const stemTo = stemUp ? Math.min(...ys) - STEM_LENGTH : Math.max(...ys) + STEM_LENGTH;
+  const flags = event.value === 8 ? 1 : event.value === 16 ? 2 : 0;
+
+  return (
+    <g key={key}>
+      {heads.map((head, i) => {
+        const hx = x + offsets[i];
+        const y = ys[i];
+        const ledgers: number[] = [];
+        for (let s = topStep + 2; s <= head.step; s += 2) ledgers.push(s);
+        for (let s = bottomStep - 2; s >= head.step; s -= 2) ledgers.push(s);
+        const onLine = (topStep - head.step) % 2 === 0;
+        return (
+          <g key={head.midi}>
+            {ledgers.map(s => (
+              <line key={s} x1={hx - 7} x2={hx + 7} y1={staffY(hand, clef, s)} y2={staffY(hand, clef, s)} stroke={INK} strokeWidth={1} />
+            ))}
+            {head.accidental && (
+              <text x={x - 11} y={y + 4} textAnchor="middle" fontSize={13} fill={INK}>{ACCIDENTAL_GLYPHS[head.accidental]}</text>
+            )}
+            <ellipse
+              cx={hx}
+              cy={y}
+              rx={4.8}
+              ry={3.5}
+              transform={`rotate(-20 ${hx} ${y})`}
+              fill={filled ? INK : PAPER}
+              stroke={INK}
+              strokeWidth={filled ? 0 : 1.4}
+            />
+            {event.dotted && <circle cx={hx + 8} cy={onLine ? y - STEP / 2 - 1 : y} r={1.5} fill={INK} />}
+            {head.tied && tieToX !== null && (
+              <path
+                d={`M${hx + 5} ${y + (stemUp ? 4 : -4)} Q${(hx + tieToX) / 2} ${y + (stemUp ? 10 : -10)} ${tieToX - 5} ${y + (stemUp ? 4 : -4)}`}
+                stroke={INK}
+                strokeWidth={1.2}
+                fill="none"
+              />
+            )}
+          </g>
+        );
+      })}
+      {event.value > 1 && <line x1={stemX} x2={stemX} y1={stemFrom} y2={stemTo} stroke={INK} strokeWidth={1.2} />}
+      {Array.from({ length: flags }, (_, i) => {
+        const y = stemTo + (stemUp ? i * 6 : -i * 6);
+        return (
+          <path
+            key={i}
+            d={stemUp ? `M${stemX} ${y} q7 6 6 14` : `M${stemX} ${y} q7 -6 6 -14`}
+            stroke={INK}
+            strokeWidth={1.4}
+            fill="none"
+          />
+        );
+      })}
+    </g>
+  );
+}
+
+function renderMeasure(placed: PlacedMeasure, staff: GrandStaff, onSeek: (ticks: number) => void) {
+  const { measure, x, width } = placed;
+  const hands: Hand[] = ['right', 'left'];
+  const systemTop = STAFF_TOPS.right;
+  const systemBottom = STAFF_TOPS.left + STAFF_HEIGHT;
+  return (
+    <g key={measure.number} className="staff-bar" onClick={() => onSeek(measure.startTicks)}>
+      <rect className="staff-measure" x={x} y={0} width={width} height={VIEW_HEIGHT}>
+        <title>{`Bar ${measure.number}`}</title>
+      </rect>
+      <text x={x + 3} y={systemTop - 14} fontSize={9} fill={FAINT}>{measure.number}</text>
+      {hands.map(hand => {
+        const clef = staff.clefs[hand];
+        const top = STAFF_TOPS[hand];
+        // A key change to C cancels the old signature with naturals
+        const keyAccidentals = measure.fifths === 0 && measure.keyChanged
+          ? keySteps(clef, placed.previousFifths).map(step => ({ step, glyph: ACCIDENTAL_GLYPHS.natural }))
+          : keySteps(clef, measure.fifths).map(step => ({ step, glyph: measure.fifths > 0 ? ACCIDENTAL_GLYPHS.sharp : ACCIDENTAL_GLYPHS.flat }));
+        return (
+          <g key={hand}>
+            {[0, 1, 2, 3, 4].map(line => (
+              <line key={line} x1={x} x2={x + width} y1={top + line * STEP * 2} y2={top + line * STEP * 2} stroke={INK} strokeWidth={0.8} />
+            ))}
+            {measure.keyChanged && keyAccidentals.map(({ step, glyph }, i) => (
+              <text key={i} x={placed.keyX + i * KEY_ACCIDENTAL_WIDTH + 3} y={staffY(hand, clef, step) + 4} textAnchor="middle" fontSize={13} fill={INK}>
+                {glyph}
+              </text>
+            ))}
+            {measure.meterChanged && (
+              <g fontSize={17} fontWeight={700} textAnchor="middle" fill={INK}>
+                <text x={placed.meterX + METER_WIDTH / 2} y={top + 14}>{measure.meter[0]}</text>
+                <text x={placed.meterX + METER_WIDTH / 2} y={top + 30}>{measure.meter[1]}</text>
+              </g>
+            )}
+            {placed.events[hand].map((event, i) => renderChord(`${hand}-${i}`, hand, clef, event))}
+          </g>
+        );
+      })}
+      <line x1={x + width} x2={x + width} y1={systemTop} y2={systemBottom} stroke={INK} strokeWidth={1} />
+    </g>
+  );
+}
+
+/**
+ * The song as a grand staff, scrolling along with playback: a cursor glides
+ * over the current bar and clicking a bar seeks to it. Only the bars around
+ * the visible stretch are drawn, so long songs stay light.
+ */
+const StaffView: React.FC<StaffViewProps> = ({ staff, mode, getTicks, onSeek, style }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<SVGGElement>(null);
+  const barRef = useRef<SVGRectElement>(null);
+  const getTicksRef = useRef(getTicks);
+  const [range, setRange] = useState({ first: 0, last: 0 }); // Bars drawn
+  const layout = useMemo(() => layoutStaff(staff), [staff]);
+  const scale = SCALES[mode];
+
+  useEffect(() => {
+    getTicksRef.current = getTicks;
+  });
+
+  // Draw a screen's width either side of what's visible
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller || layout.measures.length === 0) return;
+    const update = () => {
+      const span = scroller.clientWidth / scale;
+      const left = scroller.scrollLeft / scale;
+      const first = measureAtX(layout, left - span);
+      const last = measureAtX(layout, left + 2 * span);
+      setRange(prev => (prev.first === first && prev.last === last ? prev : { first, last }));
+    };
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(scroller);
+    scroller.addEventListener('scroll', update);
+    return () => {
+      resizeObserver.disconnect();
+      scroller.removeEventListener('scroll', update);
+    };
+  }, [layout, scale]);
+
+  // Cursor & bar highlight follow the playhead; the view scrolls to keep it a third of the way in
+  useEffect(() => {
+    if (layout.measures.length === 0) return;
+    let frame = 0;
+    let lastTicks = -1;
+    const follow = () => {
+      const ticks = getTicksRef.current();
+      if (ticks !== lastTicks) {
+        lastTicks = ticks;
+        const placed = layout.measures[measureAtTicks(layout, ticks)];
+        const x = cursorX(placed, ticks);
+        cursorRef.current?.setAttribute('transform', `translate(${x} 0)`);
+        barRef.current?.setAttribute('x', String(placed.x));
+        barRef.current?.setAttribute('width', String(placed.width));
+        const scroller = scrollRef.current;
+        if (scroller) {
+          const target = Math.max(0, x * scale - scroller.clientWidth / 3);
+          if (Math.abs(scroller.scrollLeft - target) > 1) scroller.scrollLeft = target;
+        }
+      }
+      frame = requestAnimationFrame(follow);
+    };
+    follow();
+    return () => cancelAnimationFrame(frame);
+  }, [layout, scale]);
+
+  const width = layout.width + LAYOUT_TAIL;
+  const systemTop = STAFF_TOPS.right;
+  const systemBottom = STAFF_TOPS.left + STAFF_HEIGHT;
+
+  return (
+    <div className={`staff-view ${mode}`} style={style}>
+      <div className="staff-scroll" ref={scrollRef}>
+        <svg width={width * scale} height={VIEW_HEIGHT * scale} viewBox={`0 0 ${width} ${VIEW_HEIGHT}`}>
+          <rect ref={barRef} className="staff-current-bar" x={0} y={systemTop - 8} width={0} height={systemBottom - systemTop + 16} />
+          {layout.measures.slice(range.first, range.last + 1).map(placed => renderMeasure(placed, staff, onSeek))}
+          <g ref={cursorRef} className="staff-cursor">
+            <rect x={-1} y={systemTop - 10} width={2} height={systemBottom - systemTop + 20} />
+          </g>
+        </svg>
+      </div>
+
+      {/* Clefs pinned to the left edge, over the scrolling bars */}
+      <svg className="staff-clefs" width={CLEF_WIDTH * scale} height={VIEW_HEIGHT * scale} viewBox={`0 0 ${CLEF_WIDTH} ${VIEW_HEIGHT}`}>
+        <rect x={0} y={0} width={CLEF_WIDTH} height={VIEW_HEIGHT} fill={PAPER} />
+        <line x1={4} x2={4} y1={systemTop} y2={systemBottom} stroke={INK} strokeWidth={2} />
+        {(['right', 'left'] as Hand[]).map(hand => {
+          const top = STAFF_TOPS[hand];
+          const clef = staff.clefs[hand];
+          return (
+            <g key={hand}>
+              {[0, 1, 2, 3, 4].map(line => (
+                <line key={line} x1={4} x2={CLEF_WIDTH} y1={top + line * STEP * 2} y2={top + line * STEP * 2} stroke={INK} strokeWidth={0.8} />
+              ))}
+              <text
+                x={20}
+                y={clef === 'treble' ? top + 27 : top + 23}
+                textAnchor="middle"
+                fontSize={clef === 'treble' ? 38 : 30}
+                fill={INK}
+              >
+                {CLEF_GLYPHS[clef]}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default StaffView;
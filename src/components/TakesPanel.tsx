@@ -0,0 +1,109 @@
+import React from 'react';
+import type { Take } from '../lib/recording';
+
+interface TakesPanelProps {
+  takes: Take[];
+  activeTakeId: string | null;
+  isRecording: boolean;
+  recordWithSong: boolean;
+  takeAudible: boolean;
+  formatTicks: (ticks: number) => string;
+  onToggleRecording: () => void;
+  onRecordWithSongChange: (withSong: boolean) => void;
+  onTakeAudibleChange: (audible: boolean) => void;
+  onShowTake: (takeId: string | null) => void;
+  onExportTake: (take: Take) => void;
+  onDeleteTake: (take: Take) => void;
+  onClose: () => void;
+}
+
+const TakesPanel: React.FC<TakesPanelProps> = ({
+  takes,
+  activeTakeId,
+  isRecording,
+  recordWithSong,
+  takeAudible,
+  formatTicks,
+  onToggleRecording,
+  onRecordWithSongChange,
+  onTakeAudibleChange,
+  onShowTake,
+  onExportTake,
+  onDeleteTake,
+  onClose,
+}) => {
+  return (
+    <div className="side-panel takes-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Takes</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="panel-section">
+        <button className={`track-toggle wide record-btn ${isRecording ? 'on' : ''}`} onClick={onToggleRecording}>
+          {isRecording ? '■ Stop recording' : '● Record'}
+        </button>
+        <label className="panel-field checkbox">
+          <input
+            type="checkbox"
+            checked={recordWithSong}
+            disabled={isRecording}
+            onChange={(e) => onRecordWithSongChange(e.target.checked)}
+          />
+          <span>Play the song while recording</span>
+        </label>
+        <p className="panel-hint">Records your MIDI keyboard and the on-screen keys, aligned to the song's bars.</p>
+      </div>
+
+      <div className="panel-section">
+        <label className="panel-field checkbox">
+          <input
+            type="checkbox"
+            checked={takeAudible}
+            onChange={(e) => onTakeAudibleChange(e.target.checked)}
+          />
+          <span>Play the shown take</span>
+        </label>
+      </div>
+
+      {takes.length === 0 && <p className="side-panel-empty">No takes yet for this song.</p>}
+
+      <ul className="track-list">
+        {takes.map(take => {
+          const last = take.notes[take.notes.length - 1];
+          const shown = take.id === activeTakeId;
+          return (
+            <li key={take.id} className={`track-row take-row ${shown ? 'shown' : ''}`}>
+              <input
+                type="radio"
+                name="shown-take"
+                checked={shown}
+                onChange={() => onShowTake(take.id)}
+                onClick={() => shown && onShowTake(null)}
+                title={shown ? 'Hide from waterfall' : 'Show in waterfall'}
+              />
+              <div className="track-meta">
+                <span className="track-name">{take.name}</span>
+                <span className="track-sub">
+                  {new Date(take.createdAt).toLocaleString()} · {take.notes.length} notes
+                  {last && ` · ${formatTicks(take.notes[0].ticks)}–${formatTicks(last.ticks + last.durationTicks)}`}
+                  {!take.withSong && ' · solo'}
+                </span>
+              </div>
+              <div className="track-actions">
+                <button className="track-toggle wide" onClick={() => onExportTake(take)} title="Download as .mid">
+                  .mid
+                </button>
+                <button className="track-toggle" onClick={() => onDeleteTake(take)} title="Delete take">
+                  ✕
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TakesPanel;
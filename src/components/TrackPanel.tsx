@@ -0,0 +1,116 @@
+import React from 'react';
+import type { TrackInfo, TrackMix } from '../lib/trackMixer';
+
+export interface InstrumentOption {
+  id: string;
+  name: string;
+}
+
+interface TrackPanelProps {
+  tracks: TrackInfo[];
+  mixes: Record<number, TrackMix>;
+  instruments: InstrumentOption[];
+  maxOctaveShift: number;
+  onChange: (trackIndex: number, patch: Partial<TrackMix>) => void;
+  onClose: () => void;
+}
+
+const TrackPanel: React.FC<TrackPanelProps> = ({ tracks, mixes, instruments, maxOctaveShift, onChange, onClose }) => {
+  const anySolo = tracks.some(t => mixes[t.index]?.solo);
+
+  return (
+    <div className="side-panel track-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="side-panel-header">
+        <h2>Tracks</h2>
+        <button className="btn-icon" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      {tracks.length === 0 && <p className="side-panel-empty">This song has no note tracks.</p>}
+
+      <ul className="track-list">
+        {tracks.map(track => {
+          const mix = mixes[track.index];
+          if (!mix) return null;
+          const silenced = mix.muted || (anySolo && !mix.solo);
+
+          return (
+            <li key={track.index} className={`track-row ${silenced ? 'silenced' : ''}`}>
+              <input
+                type="color"
+                className="track-color"
+                value={mix.color}
+                onChange={(e) => onChange(track.index, { color: e.target.value })}
+                title="Note color"
+              />
+              <div className="track-meta">
+                <span className="track-name">{track.name}</span>
+                <span className="track-sub">{track.instrument} · {track.noteCount} notes</span>
+                <select
+                  className="track-instrument"
+                  value={mix.instrument}
+                  onChange={(e) => onChange(track.index, { instrument: e.target.value })}
+                  title={track.percussion ? 'Sound (drum channel)' : `Sound (GM program ${track.program + 1})`}
+                >
+                  {instruments.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="track-actions">
+                <button
+                  className={`track-toggle ${mix.muted ? 'on mute' : ''}`}
+                  onClick={() => onChange(track.index, { muted: !mix.muted })}
+                  title="Mute"
+                >
+                  M
+                </button>
+                <button
+                  className={`track-toggle ${mix.solo ? 'on solo' : ''}`}
+                  onClick={() => onChange(track.index, { solo: !mix.solo })}
+                  title="Solo"
+                >
+                  S
+                </button>
+                <button
+                  className={`track-toggle ${mix.hidden ? 'on' : ''}`}
+                  onClick={() => onChange(track.index, { hidden: !mix.hidden })}
+                  title="Hide from waterfall"
+                >
+                  {mix.hidden ? '🙈' : '👁'}
+                </button>
+                <div className="track-octave" title={track.percussion ? 'Drum tracks are never shifted' : 'Octave shift'}>
+                  <button
+                    className="track-toggle"
+                    onClick={() => onChange(track.index, { octave: mix.octave - 1 })}
+                    disabled={track.percussion || mix.octave <= -maxOctaveShift}
+                  >
+                    −
+                  </button>
+                  <span className={mix.octave !== 0 ? 'on' : ''}>{mix.octave > 0 ? `+${mix.octave}` : mix.octave} oct</span>
+                  <button
+                    className="track-toggle"
+                    onClick={() => onChange(track.index, { octave: mix.octave + 1 })}
+                    disabled={track.percussion || mix.octave >= maxOctaveShift}
+                  >
+                    +
+                  </button>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={mix.volume}
+                  onChange={(e) => onChange(track.index, { volume: parseFloat(e.target.value) })}
+                  title={`Volume ${Math.round(mix.volume * 100)}%`}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TrackPanel;
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// --- Web MIDI input: device selection & hot-plug handling ---
+
+export type MidiInputStatus = 'unsupported' | 'pending' | 'denied' | 'ready';
+
+export interface MidiInputDevice {
+  id: string;
+  name: string;
+  manufacturer: string;
+}
+
+export interface MidiNoteHandlers {
+  onNoteOn: (midi: number, velocity: number) => void;
+  onNoteOff: (midi: number) => void;
+}
+
+const STORAGE_KEY_DEVICE = 'midi_input_device';
+
+function listDevices(access: MIDIAccess): MidiInputDevice[] {
+  const devices: MidiInputDevice[] = [];
+  access.inputs.forEach(input => {
+    if (input.state !== 'connected') return;
+    devices.push({
+      id: input.id,
+      name: input.name || 'Unknown device',
+      manufacturer: input.manufacturer || '',
+    });
+  });
+  return devices;
+}
+
+/**
+ * Connects to the Web MIDI API and forwards note on/off messages from the
+ * selected input. The chosen device is remembered across sessions; if it is
+ * unplugged we keep the selection and re-attach as soon as it comes back.
+ */
+export function useMidiInput(handlers: MidiNoteHandlers) {
+  const supported = typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  const [status, setStatus] = useState<MidiInputStatus>(supported ? 'pending' : 'unsupported');
+  const [devices, setDevices] = useState<MidiInputDevice[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY_DEVICE));
+  const [access, setAccess] = useState<MIDIAccess | null>(null);
+
+  // Handlers change every render; keep the latest without re-binding listeners
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  // 1. Request access & watch for hot-plug events
+  useEffect(() => {
+    if (!supported) return;
+    let cancelled = false;
+    let midiAccess: MIDIAccess | null = null;
+
+    const handleStateChange = () => {
+      if (midiAccess) setDevices(listDevices(midiAccess));
+    };
+
+    navigator.requestMIDIAccess().then(
+      (result) => {
+        if (cancelled) return;
+        midiAccess = result;
+        midiAccess.addEventListener('statechange', handleStateChange);
+        setAccess(midiAccess);
+        setDevices(listDevices(midiAccess));
+        setStatus('ready');
+      },
+      (err) => {
+        console.warn('MIDI access denied', err);
+        if (!cancelled) setStatus('denied');
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      midiAccess?.removeEventListener('statechange', handleStateChange);
+    };
+  }, [supported]);
+
+  // Fall back to the first connected device when nothing valid is selected
+  const activeId = selectedId && devices.some(d => d.id === selectedId)
+    ? selectedId
+    : (selectedId === null ? devices[0]?.id ?? null : null);
+
+  // 2. Attach to the active input
+  useEffect(() => {
+    if (!access || !activeId) return;
+    const input = access.inputs.get(activeId);
+    if (!input) return;
+
+    const held = new Set<number>();
+
+    const handleMessage = (e: MIDIMessageEvent) => {
+      if (!e.data || e.data.length < 3) return;
+      const command = e.data[0] & 0xf0;
+      const note = e.data[1];
+      const velocity = e.data[2];
+
+      if (command === 0x90 && velocity > 0) {
+        held.add(note);
+        handlersRef.current.onNoteOn(note, velocity / 127);
+      } else if (command === 0x80 || command === 0x90) {
+        held.delete(note);
+        handlersRef.current.onNoteOff(note);
+      }
+    };
+
+    input.addEventListener('midimessage', handleMessage);
+    return () => {
+      input.removeEventListener('midimessage', handleMessage);
+      // Don't leave notes hanging if the device goes away mid-press
+      held.forEach(note => handlersRef.current.onNoteOff(note));
+    };
+  }, [access, activeId]);
+
+  const selectDevice = useCallback((id: string | null) => {
+    setSelectedId(id);
+    if (id) localStorage.setItem(STORAGE_KEY_DEVICE, id);
+    else localStorage.removeItem(STORAGE_KEY_DEVICE);
+  }, []);
+
+  return {
+    status,
+    devices,
+    activeDevice: devices.find(d => d.id === activeId) ?? null,
+    selectedId,
+    selectDevice,
+  };
+}
@@ -0,0 +1,400 @@
+import {
+  DEFAULT_SCORE_VELOCITY,
+  DYNAMICS_VELOCITY,
+  SCORE_PPQ,
+  createWarnings,
+  keyFromFifths,
+  unsupportedScore,
+  type ImportedNote,
+  type ImportedScore,
+  type ImportedTrack,
+} from './importedScore';
+
+// --- ABC notation (v2.1) -> imported score ---
+// Covers what folk & teaching tunes use: header fields, keys with modes, note
+// lengths, chords, ties, tuplets, broken rhythm, voices and inline fields.
+
+const LETTER_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+// Sharps (+) or flats (-) of each major key
+const MAJOR_FIFTHS: Record<string, number> = {
+  Fb: -8, Cb: -7, Gb: -6, Db: -5, Ab: -4, Eb: -3, Bb: -2, F: -1, C: 0, G: 1, D: 2, A: 3,
+  E: 4, B: 5, 'F#': 6, 'C#': 7, 'G#': 8, 'D#': 9, 'A#': 10, 'E#': 11, 'B#': 12,
+};
+// Modes, by their first three letters, as fifths from the major key on the same tonic
+const MODE_FIFTHS: Record<string, number> = { maj: 0, ion: 0, mix: -1, dor: -2, m: -3, min: -3, aeo: -3, phr: -4, loc: -5, lyd: 1 };
+const SHARP_ORDER = 'FCGDAEB';
+const ACCIDENTALS: Record<string, number> = { '^^': 2, '^': 1, '=': 0, '_': -1, '__': -2 };
+// Single-character decorations (staccato, roll, fermata, accent, …); skipped
+const DECORATIONS = '.~HLMOPSTuvJR';
+const WHOLE_NOTE_TICKS = SCORE_PPQ * 4;
+
+interface AbcKey {
+  fifths: number;
+  minor: boolean;
+  accidentals: Record<string, number>; // Letter -> semitones, from the key signature
+}
+
+interface Voice {
+  track: ImportedTrack;
+  position: number;                    // Ticks
+  barAccidentals: Map<number, number>; // Natural pitch -> accidental written earlier in the bar
+  ties: Map<number, ImportedNote>;     // Pitch -> note the next one of that pitch carries on
+  velocity: number;
+  tuplet: { remaining: number; factor: number } | null;
+  lastEvent: { notes: ImportedNote[]; duration: number } | null;
+  nextFactor: number;                  // Broken rhythm owed to the next note
+}
+
+type Warnings = ReturnType<typeof createWarnings>;
+
+function parseKey(value: string, warnings: Warnings): AbcKey {
+  const text = value.trim();
+  const key: AbcKey = { fifths: 0, minor: false, accidentals: {} };
+  if (text === '' || /^none\b/i.test(text)) return key;
+  if (/^H[pP]\b/.test(text)) {
+    warnings.add('bagpipe-key', 'The bagpipe key (K:HP) is read as C major.');
+    return key;
+  }
+  const match = text.match(/^([A-G])([#b]?)\s*([A-Za-z]*)(.*)$/);
+  if (!match) {
+    warnings.add('key', `The key "${text}" isn't understood; notes are read in C major.`);
+    return key;
+  }
+  const mode = match[3].toLowerCase();
+  const modeFifths = MODE_FIFTHS[mode === 'm' ? 'm' : mode.slice(0, 3)] ?? 0;
+  key.fifths = (MAJOR_FIFTHS[match[1] + match[2]] ?? 0) + modeFifths;
+  key.minor = modeFifths === -3;
+  const count = Math.min(7, Math.abs(key.fifths));
+  const letters = key.fifths > 0 ? SHARP_ORDER.slice(0, count) : [...SHARP_ORDER].reverse().join('').slice(0, count);
+  for (const letter of letters) key.accidentals[letter] = Math.sign(key.fifths);
+  // Explicit accidentals after the mode, e.g. "K:D ^c"
+  for (const [, accidental, letter] of match[4].matchAll(/(\^\^|\^|__|_|=)([A-Ga-g])\b/g)) {
+    key.accidentals[letter.toUpperCase()] = ACCIDENTALS[accidental];
+  }
+  return key;
+}
+
+function parseMeter(value: string): [number, number] | null {
+  const text = value.trim();
+  if (text === 'C') return [4, 4];
+  if (text === 'C|') return [2, 2];
+  const match = text.match(/^\(?([\d+]+)\)?\s*\/\s*(\d+)/);
+  if (!match) return null;
+  const numerator = match[1].split('+').reduce((sum, n) => sum + Number(n), 0);
+  const denominator = Number(match[2]);
+  return numerator > 0 && denominator > 0 ? [numerator, denominator] : null;
+}
+
+// "3/2" -> 1.5, "/" -> 0.5, "//" -> 0.25, "" -> 1
+function parseLength(text: string, at: number): { length: number; end: number } {
+  const match = text.slice(at).match(/^(\d*)(\/*)(\d*)/)!;
+  const numerator = match[1] ? Number(match[1]) : 1;
+  const slashes = match[2].length;
+  const denominator = match[3] ? Number(match[3]) * 2 ** Math.max(0, slashes - 1) : 2 ** slashes;
+  return { length: numerator / denominator, end: at + match[0].length };
+}
+
+/**
+ * Reads the first tune of an ABC file: one track per voice (V:), or a
+ * single track. Repeats, grace notes and voice overlays are reported as
+ * warnings; a file with no K: (key) line, which ends a tune's header, is an error.
+ */
+export function importAbc(source: string): ImportedScore {
+  const warnings = createWarnings();
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  // The first tune runs from its X: line to the next blank line (or the next X:)
+  let start = lines.findIndex(line => /^X:/.test(line));
+  const tuneCount = lines.filter(line => /^X:/.test(line)).length;
+  if (start === -1) start = 0;
+  let end = lines.findIndex((line, i) => i > start && (line.trim() === '' || /^X:/.test(line)));
+  if (end === -1) end = lines.length;
+  const tune = lines.slice(start, end);
+  if (!tune.some(line => /^K:/.test(line))) {
+    throw unsupportedScore("This ABC file has no K: (key) line, so its tune never starts. Every ABC tune needs one after its header.", 'score-unreadable');
+  }
+
+  const score: ImportedScore = {
+    ppq: SCORE_PPQ,
+    tempos: [],
+    timeSignatures: [],
+    keySignatures: [],
+    markers: [],
+    tracks: [],
+    warnings: [],
+  };
+  let title = '';
+  let unitLength: number | null = null; // Fraction of a whole note
+  let meter: [number, number] = [4, 4];
+  let key = parseKey('', warnings);
+  let inBody = false;
+
+  const voices = new Map<string, Voice>();
+  let voice: Voice | null = null;
+  const voiceFor = (id: string, name?: string): Voice => {
+    let found = voices.get(id);
+    if (!found) {
+      found = {
+        track: { name: name || (id === '' ? title || 'Tune' : `Voice ${id}`), instrument: 'piano', program: 0, percussion: false, notes: [] },
+        position: 0,
+        barAccidentals: new Map(),
+        ties: new Map(),
+        velocity: DEFAULT_SCORE_VELOCITY,
+        tuplet: null,
+        lastEvent: null,
+        nextFactor: 1,
+      };
+      voices.set(id, found);
+      score.tracks.push(found.track);
+    } else if (name) {
+      found.track.name = name;
+    }
+    return found;
+  };
+  const currentVoice = () => voice ?? (voice = voiceFor(''));
+  const here = () => (voice ? voice.position : 0);
+  const unit = () => unitLength ?? (meter[0] / meter[1] < 0.75 ? 1 / 16 : 1 / 8);
+
+  const handleField = (field: string, value: string) => {
+    switch (field) {
+      case 'T':
+        if (!inBody) title ||= value.trim();
+        else if (value.trim()) score.markers.push({ ticks: here(), text: value.trim(), type: 'marker' });
+        break;
+      case 'P':
+        if (inBody && value.trim()) score.markers.push({ ticks: here(), text: value.trim(), type: 'marker' });
+        else if (value.trim()) warnings.add('parts', 'The part order (P: in the header) is ignored; the tune plays as written.');
+        break;
+      case 'M': {
+        const parsed = parseMeter(value);
+        if (parsed) {
+          meter = parsed;
+          score.timeSignatures.push({ ticks: here(), timeSignature: parsed });
+        }
+        break;
+      }
+      case 'L': {
+        const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)/);
+        if (match && Number(match[1]) > 0 && Number(match[2]) > 0) unitLength = Number(match[1]) / Number(match[2]);
+        break;
+      }
+      case 'Q': {
+        // "1/4=120", "3/8=60", or a bare count of unit notes per minute
+        const beat = value.match(/(\d+)\s*\/\s*(\d+)\s*=\s*(\d+)/);
+        const bare = value.match(/^\s*(?:C\s*=\s*)?(\d+)\s*$/);
+        const bpm = beat
+          ? Number(beat[3]) * (Number(beat[1]) / Number(beat[2])) * 4
+          : bare ? Number(bare[1]) * unit() * 4 : 0;
+        if (bpm > 0) score.tempos.push({ ticks: here(), bpm });
+        break;
+      }
+      case 'K':
+        key = parseKey(value.replace(/\bclef\s*=\s*\S+/, ''), warnings);
+        score.keySignatures.push(keyFromFifths(here(), key.fifths, key.minor));
+        inBody = true;
+        break;
+      case 'V': {
+        const match = value.trim().match(/^(\S+)(.*)$/);
+        if (!match) break;
+        const name = match[2].match(/\b(?:name|nm)\s*=\s*"([^"]*)"/)?.[1];
+        const defined = voiceFor(match[1], name);
+        if (inBody) voice = defined;
+        break;
+      }
+    }
+  };
+
+  // Note lengths follow the tuplet in progress and any broken rhythm owed by the note before
+  const eventTicks = (target: Voice, length: number): number => {
+    let ticks = WHOLE_NOTE_TICKS * unit() * length * target.nextFactor;
+    target.nextFactor = 1;
+    if (target.tuplet) {
+      ticks *= target.tuplet.factor;
+      if (--target.tuplet.remaining <= 0) target.tuplet = null;
+    }
+    return Math.round(ticks);
+  };
+
+  const placeEvent = (target: Voice, pitches: { midi: number; tie: boolean }[], duration: number) => {
+    const notes: ImportedNote[] = [];
+    for (const { midi, tie } of pitches) {
+      const tiedFrom = target.ties.get(midi);
+      let note: ImportedNote;
+      if (tiedFrom && Math.abs(tiedFrom.ticks + tiedFrom.durationTicks - target.position) <= 1) {
+        tiedFrom.durationTicks = target.position + duration - tiedFrom.ticks;
+        note = tiedFrom;
+      } else {
+        note = { midi, ticks: target.position, durationTicks: duration, velocity: target.velocity };
+        target.track.notes.push(note);
+      }
+      if (tie) target.ties.set(midi, note);
+      else target.ties.delete(midi);
+      notes.push(note);
+    }
+    target.lastEvent = { notes, duration };
+    target.position += duration;
+  };
+
+  // Accidental? letter, octave marks: returns the pitch and where the note's length starts
+  const readPitch = (text: string, at: number, target: Voice): { midi: number; end: number } | null => {
+    const match = text.slice(at).match(/^(\^\^|\^|__|_|=)?([A-Ga-g])([',]*)/);
+    if (!match) return null;
+    const letter = match[2].toUpperCase();
+    const octaves = [...match[3]].reduce((sum, c) => sum + (c === "'" ? 1 : -1), 0);
+    const natural = (match[2] === letter ? 60 : 72) + LETTER_PITCHES[letter] + 12 * octaves;
+    let accidental: number;
+    if (match[1] !== undefined) {
+      accidental = ACCIDENTALS[match[1]];
+      target.barAccidentals.set(natural, accidental);
+    } else {
+      accidental = target.barAccidentals.get(natural) ?? key.accidentals[letter] ?? 0;
+    }
+    return { midi: natural + accidental, end: at + match[0].length };
+  };
+
+  const parseMusic = (text: string) => {
+    const target = currentVoice();
+    let i = 0;
+    while (i < text.length) {
+      const c = text[i];
+      const rest = text.slice(i);
+
+      if (c === '"') {
+        // Chord symbols & annotations
+        const close = text.indexOf('"', i + 1);
+        i = close === -1 ? text.length : close + 1;
+      } else if (c === '!' || c === '+') {
+        const close = text.indexOf(c, i + 1);
+        const decoration = close === -1 ? '' : text.slice(i + 1, close);
+        if (DYNAMICS_VELOCITY[decoration] !== undefined) target.velocity = DYNAMICS_VELOCITY[decoration];
+        i = close === -1 ? text.length : close + 1;
+      } else if (c === '{') {
+        warnings.add('grace', 'Grace notes are left out.');
+        const close = text.indexOf('}', i);
+        i = close === -1 ? text.length : close + 1;
+      } else if (c === '(' && /^\(\d/.test(rest)) {
+        // (p:q:r = p notes in the time of q, for the next r notes
+        const match = rest.match(/^\((\d+)(?::(\d*)(?::(\d*))?)?/)!;
+        const p = Number(match[1]);
+        const compound = meter[1] === 8 && meter[0] % 3 === 0;
+        const q = match[2] ? Number(match[2]) : [2, 4, 8].includes(p) ? 3 : p === 3 || p === 6 ? 2 : compound ? 3 : 2;
+        const r = match[3] ? Number(match[3]) : p;
+        if (p > 0) target.tuplet = { remaining: r, factor: q / p };
+        i += match[0].length;
+      } else if (c === '[' && /^\[[A-Za-z]:/.test(rest)) {
+        // Inline field, e.g. [K:G] or [V:2]
+        const close = text.indexOf(']', i);
+        const body = text.slice(i + 1, close === -1 ? text.length : close);
+        handleField(body[0], body.slice(2));
+        i = close === -1 ? text.length : close + 1;
+        if (body[0] === 'V') {
+          parseMusic(text.slice(i));
+          return;
+        }
+      } else if (c === '|' || c === ':' || (c === '[' && /^\[[|\d]/.test(rest))) {
+        const match = rest.match(/^(?:[|:\]]|\[(?=[|\d]))+\s*\d*(?:[,-]\d+)*/)!;
+        if (/:|\d/.test(match[0])) warnings.add('repeats', 'Repeats and 1st/2nd endings are played straight through, once.');
+        target.barAccidentals.clear();
+        i += Math.max(1, match[0].length);
+      } else if (c === '[') {
+        // Chord: as long as its first note, times the length after the bracket
+        const close = text.indexOf(']', i);
+        const inner = text.slice(i + 1, close === -1 ? text.length : close);
+        const pitches: { midi: number; tie: boolean }[] = [];
+        let firstLength: number | null = null;
+        let j = 0;
+        while (j < inner.length) {
+          const pitch = readPitch(inner, j, target);
+          if (!pitch) {
+            j++;
+            continue;
+          }
+          const { length, end: lengthEnd } = parseLength(inner, pitch.end);
+          firstLength ??= length;
+          const tie = inner[lengthEnd] === '-';
+          pitches.push({ midi: pitch.midi, tie });
+          j = lengthEnd + (tie ? 1 : 0);
+        }
+        const outer = parseLength(text, close === -1 ? text.length : close + 1);
+        i = outer.end;
+        const tieAll = text[i] === '-';
+        if (tieAll) i++;
+        if (pitches.length > 0) {
+          placeEvent(target, pitches.map(p => ({ midi: p.midi, tie: p.tie || tieAll })), eventTicks(target, (firstLength ?? 1) * outer.length));
+        }
+      } else if (c === 'z' || c === 'x') {
+        const { length, end: lengthEnd } = parseLength(text, i + 1);
+        target.position += eventTicks(target, length);
+        target.lastEvent = null;
+        i = lengthEnd;
+      } else if (c === 'Z' || c === 'X') {
+        // Whole bars of rest
+        const match = rest.match(/^[ZX](\d*)/)!;
+        const bars = match[1] ? Number(match[1]) : 1;
+        target.position += Math.round(bars * WHOLE_NOTE_TICKS * (meter[0] / meter[1]));
+        target.lastEvent = null;
+        i += match[0].length;
+      } else if (c === '>' || c === '<') {
+        // a>b: the first note dotted, the second halved (>> / >>> for double & triple)
+        const count = rest.match(/^(>+|<+)/)![0].length;
+        const share = 1 / 2 ** count;
+        const last = target.lastEvent;
+        if (last) {
+          const lengthened = Math.round(last.duration * (c === '>' ? 2 - share : share));
+          target.position += lengthened - last.duration;
+          last.notes.forEach(note => { note.durationTicks += lengthened - last.duration; });
+          last.duration = lengthened;
+          target.nextFactor = c === '>' ? share : 2 - share;
+        }
+        i += count;
+      } else if (c === '-') {
+        // A tie after a chord's bracket or written apart from its note
+        target.lastEvent?.notes.forEach(note => target.ties.set(note.midi, note));
+        i++;
+      } else if (c === '&') {
+        warnings.add('overlay', 'Voice overlays (&) are left out; put the second voice on its own V: line.');
+        return;
+      } else if (/[\^_=A-Ga-g]/.test(c)) {
+        const pitch = readPitch(text, i, target);
+        if (!pitch) {
+          i++;
+          continue;
+        }
+        const { length, end: lengthEnd } = parseLength(text, pitch.end);
+        const tie = text[lengthEnd] === '-';
+        i = lengthEnd + (tie ? 1 : 0);
+        placeEvent(target, [{ midi: pitch.midi, tie }], eventTicks(target, length));
+      } else {
+        // Spaces, slurs, spacers (y), line continuations and decorations
+        if (!(c === ' ' || c === '\t' || c === '(' || c === ')' || c === 'y' || c === '`' || c === '\\' || c === ']' || DECORATIONS.includes(c))) {
+          warnings.add(`symbol ${c}`, `The ABC symbol "${c}" isn't understood and is skipped.`);
+        }
+        i++;
+      }
+    }
+  };
+
+  for (const rawLine of tune) {
+    const directive = rawLine.match(/^%%MIDI\s+(program|channel)\s+(?:\d+\s+)?(\d+)/);
+    if (directive) {
+      const track = currentVoice().track;
+      if (directive[1] === 'program') track.program = Math.min(127, Number(directive[2]));
+      else track.percussion = Number(directive[2]) === 10;
+      continue;
+    }
+    const line = rawLine.replace(/(^|[^\\])%.*$/, '$1').trimEnd();
+    if (line.trim() === '') continue;
+    const field = line.match(/^([A-Za-z]):(.*)$/);
+    if (field) {
+      // Lyrics and other text fields carry no notes
+      handleField(field[1], field[2]);
+    } else if (inBody) {
+      parseMusic(line);
+    }
+  }
+
+  if (tuneCount > 1) warnings.add('tunes', `This file holds ${tuneCount} tunes; only the first${title ? ` (“${title}”)` : ''} is imported.`);
+  score.tracks = score.tracks.filter(track => track.notes.length > 0);
+  score.warnings = warnings.list();
+  return score;
+}
@@ -0,0 +1,16 @@
+// --- Browser downloads ---
+
+/** Characters that aren't allowed in file names on common platforms. */
+export function safeFileName(name: string, fallback = 'song'): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || fallback;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
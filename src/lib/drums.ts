@@ -0,0 +1,77 @@
+import type { NoteData } from './types';
+
+// --- General MIDI percussion (channel 10): drum names & the percussion lane ---
+
+interface GmDrum {
+  name: string;  // GM Level 1 name
+  short: string; // Fits a lane header
+  group: number; // Lane order: kick, snare, hi-hat, toms, cymbals, everything else
+}
+
+const GM_DRUMS: Record<number, GmDrum> = {
+  35: { name: 'Acoustic Bass Drum', short: 'Kick 2', group: 0 },
+  36: { name: 'Bass Drum 1', short: 'Kick', group: 0 },
+  37: { name: 'Side Stick', short: 'Stick', group: 1 },
+  38: { name: 'Acoustic Snare', short: 'Snare', group: 1 },
+  39: { name: 'Hand Clap', short: 'Clap', group: 1 },
+  40: { name: 'Electric Snare', short: 'Snare 2', group: 1 },
+  41: { name: 'Low Floor Tom', short: 'Floor L', group: 3 },
+  42: { name: 'Closed Hi-Hat', short: 'HH', group: 2 },
+  43: { name: 'High Floor Tom', short: 'Floor', group: 3 },
+  44: { name: 'Pedal Hi-Hat', short: 'HH ped', group: 2 },
+  45: { name: 'Low Tom', short: 'Tom L', group: 3 },
+  46: { name: 'Open Hi-Hat', short: 'HH open', group: 2 },
+  47: { name: 'Low-Mid Tom', short: 'Tom LM', group: 3 },
+  48: { name: 'Hi-Mid Tom', short: 'Tom HM', group: 3 },
+  49: { name: 'Crash Cymbal 1', short: 'Crash', group: 4 },
+  50: { name: 'High Tom', short: 'Tom H', group: 3 },
+  51: { name: 'Ride Cymbal 1', short: 'Ride', group: 4 },
+  52: { name: 'Chinese Cymbal', short: 'China', group: 4 },
+  53: { name: 'Ride Bell', short: 'Bell', group: 4 },
+  54: { name: 'Tambourine', short: 'Tamb', group: 5 },
+  55: { name: 'Splash Cymbal', short: 'Splash', group: 4 },
+  56: { name: 'Cowbell', short: 'Cowbell', group: 5 },
+  57: { name: 'Crash Cymbal 2', short: 'Crash 2', group: 4 },
+  58: { name: 'Vibraslap', short: 'Vibra', group: 5 },
+  59: { name: 'Ride Cymbal 2', short: 'Ride 2', group: 4 },
+  60: { name: 'Hi Bongo', short: 'Bongo H', group: 5 },
+  61: { name: 'Low Bongo', short: 'Bongo L', group: 5 },
+  62: { name: 'Mute Hi Conga', short: 'Conga M', group: 5 },
+  63: { name: 'Open Hi Conga', short: 'Conga H', group: 5 },
+  64: { name: 'Low Conga', short: 'Conga L', group: 5 },
+  65: { name: 'High Timbale', short: 'Timb H', group: 5 },
+  66: { name: 'Low Timbale', short: 'Timb L', group: 5 },
+  67: { name: 'High Agogo', short: 'Agogo H', group: 5 },
+  68: { name: 'Low Agogo', short: 'Agogo L', group: 5 },
+  69: { name: 'Cabasa', short: 'Cabasa', group: 5 },
+  70: { name: 'Maracas', short: 'Maracas', group: 5 },
+  71: { name: 'Short Whistle', short: 'Whistle', group: 5 },
+  72: { name: 'Long Whistle', short: 'Whistle L', group: 5 },
+  73: { name: 'Short Guiro', short: 'Guiro', group: 5 },
+  74: { name: 'Long Guiro', short: 'Guiro L', group: 5 },
+  75: { name: 'Claves', short: 'Claves', group: 5 },
+  76: { name: 'Hi Wood Block', short: 'Block H', group: 5 },
+  77: { name: 'Low Wood Block', short: 'Block L', group: 5 },
+  78: { name: 'Mute Cuica', short: 'Cuica M', group: 5 },
+  79: { name: 'Open Cuica', short: 'Cuica', group: 5 },
+  80: { name: 'Mute Triangle', short: 'Tri M', group: 5 },
+  81: { name: 'Open Triangle', short: 'Triangle', group: 5 },
+};
+
+// Pitches outside the GM kit still get a lane, after the named ones
+const UNKNOWN_GROUP = 6;
+
+export function drumName(midi: number): string {
+  return GM_DRUMS[midi]?.name ?? `Drum ${midi}`;
+}
+
+export function drumShortName(midi: number): string {
+  return GM_DRUMS[midi]?.short ?? String(midi);
+}
+
+/** The drums a song uses, one lane each: kick first, then snares, hi-hats, toms, cymbals and the rest. */
+export function drumLanes(notes: NoteData[]): number[] {
+  const used = new Set(notes.map(n => n.midi));
+  const group = (midi: number) => GM_DRUMS[midi]?.group ?? UNKNOWN_GROUP;
+  return [...used].sort((a, b) => group(a) - group(b) || a - b);
+}
@@ -0,0 +1,48 @@
+import type { NoteData } from './types';
+
+// --- Velocity: playback curves & the song's dynamics over time ---
+
+export type VelocityCurve = 'natural' | 'fixed' | 'compressed' | 'expanded';
+
+export const VELOCITY_CURVES: { value: VelocityCurve; label: string }[] = [
+  { value: 'natural', label: 'As written' },
+  { value: 'fixed', label: 'Fixed (all notes equal)' },
+  { value: 'compressed', label: 'Compressed (evener)' },
+  { value: 'expanded', label: 'Expanded (melody stands out)' },
+];
+
+const FIXED_VELOCITY = 0.7;
+const CURVE_PIVOT = 0.5;     // Compressed & expanded scale distances from this velocity
+const COMPRESS_FACTOR = 0.5;
+const EXPAND_FACTOR = 1.8;
+const MIN_VELOCITY = 0.05;   // Expanded never drops a note to silence
+
+/** The velocity (0..1) a written velocity is played at under `curve`. */
+export function applyVelocityCurve(velocity: number, curve: VelocityCurve): number {
+  switch (curve) {
+    case 'natural':
+      return velocity;
+    case 'fixed':
+      return FIXED_VELOCITY;
+    case 'compressed':
+      return CURVE_PIVOT + (velocity - CURVE_PIVOT) * COMPRESS_FACTOR;
+    case 'expanded':
+      return Math.min(1, Math.max(MIN_VELOCITY, CURVE_PIVOT + (velocity - CURVE_PIVOT) * EXPAND_FACTOR));
+  }
+}
+
+/**
+ * Mean written velocity of the notes starting in each of `buckets` equal
+ * slices of the song (by seconds, like the scrubber). Empty slices are 0.
+ */
+export function dynamicsProfile(notes: NoteData[], duration: number, buckets: number): number[] {
+  const sums = new Array<number>(buckets).fill(0);
+  const counts = new Array<number>(buckets).fill(0);
+  if (duration <= 0) return sums;
+  for (const note of notes) {
+    const bucket = Math.min(buckets - 1, Math.floor((note.time / duration) * buckets));
+    sums[bucket] += note.velocity;
+    counts[bucket]++;
+  }
+  return sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+}
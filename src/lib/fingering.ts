@@ -0,0 +1,62 @@
+import type { NoteData } from './types';
+import { isBlackKey } from './noteNames';
+import type { Hand } from './hands';
+
+// --- Suggested fingering for files that don't carry any ---
+
+// A hand sits over five neighbouring white keys; wider jumps move the hand
+const HAND_SPAN_SEMITONES = 8;
+// Notes starting this close together (in ticks per beat) are one chord
+const CHORD_WINDOW_BEATS = 1 / 16;
+
+function whiteKeysBetween(from: number, to: number): number {
+  let count = 0;
+  for (let midi = from; midi < to; midi++) {
+    if (!isBlackKey(midi)) count++;
+  }
+  return count;
+}
+
+/**
+ * Sets `finger` (1 = thumb .. 5 = little finger) on every note, hand by hand
+ * as `handOf` assigns them (so a single-track piano part is fingered as two
+ * hands), using a simple five-finger-position model: each note is fingered by
+ * where it falls in the current hand position, and the hand moves when a note
+ * falls outside it. The left hand's numbers mirror the right's, its little
+ * finger on the lowest key. Good enough to get beginners started, not a
+ * replacement for an editor's fingering. Mutates the notes in place.
+ */
+export function suggestFingering(notes: NoteData[], ppq: number, handOf: (note: NoteData) => Hand) {
+  const byHand = new Map<Hand, NoteData[]>();
+  for (const note of notes) {
+    const hand = handOf(note);
+    const list = byHand.get(hand) ?? [];
+    list.push(note);
+    byHand.set(hand, list);
+  }
+
+  const chordWindow = Math.max(1, Math.round(ppq * CHORD_WINDOW_BEATS));
+  for (const [hand, handNotes] of byHand) {
+    handNotes.sort((a, b) => a.ticks - b.ticks || a.midi - b.midi);
+
+    // Lowest key under the hand (thumb for the right hand, little finger for the left)
+    let anchor = handNotes[0].midi;
+    for (let i = 0; i < handNotes.length; ) {
+      let j = i + 1;
+      while (j < handNotes.length && handNotes[j].ticks - handNotes[i].ticks <= chordWindow) j++;
+      const group = handNotes.slice(i, j);
+      const low = group[0].midi;
+      const high = group[group.length - 1].midi;
+
+      if (low < anchor || high > anchor + HAND_SPAN_SEMITONES) {
+        // Move the hand just far enough to cover the new notes
+        anchor = low < anchor ? low : Math.max(low, high - HAND_SPAN_SEMITONES);
+      }
+      for (const note of group) {
+        const position = Math.min(4, whiteKeysBetween(anchor, note.midi));
+        note.finger = hand === 'left' ? 5 - position : 1 + position;
+      }
+      i = j;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { NoteData } from './types';
+
+// --- Hands-separate practice: which hand plays a note, and what each hand does ---
+
+export type Hand = 'right' | 'left';
+
+// listen = heard & shown, play = shown but silent (the student plays it), hidden = neither
+export type HandMode = 'listen' | 'play' | 'hidden';
+
+export const HANDS: { hand: Hand; label: string }[] = [
+  { hand: 'right', label: 'Right hand' },
+  { hand: 'left', label: 'Left hand' },
+];
+
+export const HAND_MODES: { value: HandMode; label: string }[] = [
+  { value: 'listen', label: 'Listen' },
+  { value: 'play', label: 'You play (silent)' },
+  { value: 'hidden', label: 'Hidden' },
+];
+
+// The mixer's first two track colors, so a split single-track file looks like a two-track one
+export const HAND_COLORS: Record<Hand, string> = { right: '#a78bfa', left: '#38bdf8' };
+
+export interface HandSetup {
+  split: number | null;         // MIDI note: notes below it are the left hand. Null = by track
+  tracks: Record<number, Hand>; // trackIndex -> hand, when not split
+  modes: Record<Hand, HandMode>;
+}
+
+export const DEFAULT_SPLIT = 60; // Middle C
+
+// Below this average pitch a track is guessed to be the left hand
+const LEFT_HAND_BELOW = 60;
+
+/** Percussion never belongs to a hand; drum tracks are left out of `notes` by the caller. */
+export function handOf(setup: HandSetup, midi: number, trackIndex: number): Hand {
+  if (setup.split !== null) return midi < setup.split ? 'left' : 'right';
+  return setup.tracks[trackIndex] ?? 'right';
+}
+
+/**
+ * A first guess for a song: one pitched track is split at middle C; several
+ * are assigned by their average pitch, making sure each hand gets a track
+ * (the highest-sounding one goes to the right hand, the rest to the left).
+ */
+export function defaultHandSetup(notes: NoteData[]): HandSetup {
+  const sums = new Map<number, { total: number; count: number }>();
+  for (const note of notes) {
+    const sum = sums.get(note.trackIndex) ?? { total: 0, count: 0 };
+    sum.total += note.midi;
+    sum.count++;
+    sums.set(note.trackIndex, sum);
+  }
+  const modes: Record<Hand, HandMode> = { right: 'listen', left: 'listen' };
+  if (sums.size <= 1) return { split: DEFAULT_SPLIT, tracks: {}, modes };
+
+  const averages = [...sums].map(([index, { total, count }]) => [index, total / count] as const);
+  const tracks: Record<number, Hand> = {};
+  averages.forEach(([index, average]) => { tracks[index] = average < LEFT_HAND_BELOW ? 'left' : 'right'; });
+  const assigned = Object.values(tracks);
+  if (!assigned.includes('left') || !assigned.includes('right')) {
+    const highest = averages.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    averages.forEach(([index]) => { tracks[index] = index === highest[0] ? 'right' : 'left'; });
+  }
+  return { split: null, tracks, modes };
+}
+
+/** Whether a note's hand is drawn at all. */
+export function isHandShown(setup: HandSetup, midi: number, trackIndex: number): boolean {
+  return setup.modes[handOf(setup, midi, trackIndex)] !== 'hidden';
+}
+
+/** Whether playback sounds a note; the other hand modes leave it to the student (or to no one). */
+export function isHandHeard(setup: HandSetup, midi: number, trackIndex: number): boolean {
+  return setup.modes[handOf(setup, midi, trackIndex)] === 'listen';
+}
+
+/**
+ * Whether the student is expected to play a note (scoring, wait mode): once a
+ * hand is set to "you play", only that hand; otherwise every shown note.
+ */
+export function isHandPracticed(setup: HandSetup, midi: number, trackIndex: number): boolean {
+  const mode = setup.modes[handOf(setup, midi, trackIndex)];
+  if (mode === 'hidden') return false;
+  return mode === 'play' || !HANDS.some(({ hand }) => setup.modes[hand] === 'play');
+}
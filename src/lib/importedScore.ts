@@ -0,0 +1,71 @@
+import type { TempoEvent, TimeSignatureEvent } from './tempoMap';
+import type { KeySignatureEvent } from './noteLabels';
+import type { MetaEvent } from './markers';
+import { MidiFileError, type MidiDiagnostic } from './midiDiagnostics';
+
+// --- What the score importers (MusicXML, ABC) produce: the parts of a MIDI file the player uses ---
+
+export interface ImportedNote {
+  midi: number;
+  ticks: number;
+  durationTicks: number;
+  velocity: number; // 0..1
+}
+
+export interface ImportedTrack {
+  name: string;
+  instrument: string;
+  program: number;  // GM program, 0-127
+  percussion: boolean;
+  notes: ImportedNote[];
+}
+
+export interface ImportedScore {
+  ppq: number;
+  tempos: TempoEvent[];
+  timeSignatures: TimeSignatureEvent[];
+  keySignatures: KeySignatureEvent[];
+  markers: MetaEvent[];
+  tracks: ImportedTrack[];
+  warnings: MidiDiagnostic[];
+}
+
+// Fine enough for sextuplets of 64ths and the like
+export const SCORE_PPQ = 480;
+
+// Written music without dynamics plays at mezzo-forte
+export const DEFAULT_SCORE_VELOCITY = 80 / 127;
+
+/** Dynamics marks -> velocity (0..1), shared by MusicXML <dynamics> and ABC !p! decorations. */
+export const DYNAMICS_VELOCITY: Record<string, number> = {
+  pppp: 16 / 127, ppp: 24 / 127, pp: 36 / 127, p: 52 / 127, mp: 66 / 127,
+  mf: 80 / 127, f: 96 / 127, ff: 110 / 127, fff: 120 / 127, ffff: 127 / 127,
+};
+
+const MAJOR_KEYS = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_KEYS = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+
+/** A key signature event from sharps (+) or flats (-), as both formats write keys. */
+export function keyFromFifths(ticks: number, fifths: number, minor: boolean): KeySignatureEvent {
+  const index = Math.max(-7, Math.min(7, Math.round(fifths))) + 7;
+  return { ticks, key: (minor ? MINOR_KEYS : MAJOR_KEYS)[index], scale: minor ? 'minor' : 'major' };
+}
+
+/**
+ * Collects the "played approximately" warnings of one import, once per kind,
+ * so a score full of grace notes gets one line about them, not hundreds.
+ */
+export function createWarnings() {
+  const seen = new Map<string, MidiDiagnostic>();
+  return {
+    add(kind: string, message: string) {
+      if (!seen.has(kind)) seen.set(kind, { code: 'unsupported-feature', severity: 'warning', message });
+    },
+    list: (): MidiDiagnostic[] => [...seen.values()],
+  };
+}
+
+/** Stops an import with one error the user can act on. */
+export function unsupportedScore(message: string, code: 'score-unreadable' | 'unsupported-feature' = 'unsupported-feature'): MidiFileError {
+  return new MidiFileError([{ code, severity: 'error', message }]);
+}
@@ -0,0 +1,192 @@
+import * as Tone from 'tone';
+
+// --- Instrument registry (GM programs & percussion -> samplers / synths) ---
+
+// Sample sets keyed by note name ("C4") or MIDI number ("36", for drum kits)
+export interface SamplerBank {
+  type: 'sampler';
+  name: string;
+  baseUrl: string;
+  urls: Record<string, string>;
+  release?: number;
+  volume?: number;     // dB
+}
+
+export interface SynthBank {
+  type: 'synth';
+  name: string;
+  voice: 'synth' | 'fm' | 'am';
+  options?: Record<string, unknown>;  // Passed through to the Tone voice
+  volume?: number;     // dB
+}
+
+export type InstrumentBank = SamplerBank | SynthBank;
+
+export interface InstrumentManifest {
+  banks: Record<string, InstrumentBank>;
+  programs: Record<string, string>;   // "0-7" or "33" -> bank id
+  percussion?: string;                 // Bank for MIDI channel 10
+  fallback: string;                    // Unknown programs, and anything that fails to load
+}
+
+// Anything the scheduler and the keyboard can play notes on
+export type Instrument = Tone.Sampler | Tone.PolySynth;
+
+// Banks shared by every voice in one player: the manifest plus decoded samples
+export interface InstrumentKit {
+  manifest: InstrumentManifest;
+  buffers: Map<string, Tone.ToneAudioBuffers>;
+}
+
+export const MANIFEST_URL = `${import.meta.env.BASE_URL}instruments.json`;
+
+// --- Built-in piano (Salamander), used when no manifest can be read ---
+const PIANO_SAMPLE_URLS: Record<string, string> = {
+  A0: "A0.mp3",
+  C1: "C1.mp3",
+  "D#1": "Ds1.mp3",
+  "F#1": "Fs1.mp3",
+  A1: "A1.mp3",
+  C2: "C2.mp3",
+  "D#2": "Ds2.mp3",
+  "F#2": "Fs2.mp3",
+  A2: "A2.mp3",
+  C3: "C3.mp3",
+  "D#3": "Ds3.mp3",
+  "F#3": "Fs3.mp3",
+  A3: "A3.mp3",
+  C4: "C4.mp3",
+  "D#4": "Ds4.mp3",
+  "F#4": "Fs4.mp3",
+  A4: "A4.mp3",
+  C5: "C5.mp3",
+  "D#5": "Ds5.mp3",
+  "F#5": "Fs5.mp3",
+  A5: "A5.mp3",
+  C6: "C6.mp3",
+  "D#6": "Ds6.mp3",
+  "F#6": "Fs6.mp3",
+  A6: "A6.mp3",
+  C7: "C7.mp3",
+  "D#7": "Ds7.mp3",
+  "F#7": "Fs7.mp3",
+  A7: "A7.mp3",
+  C8: "C8.mp3"
+};
+const PIANO_BASE_URL = "https://tonejs.github.io/audio/salamander/";
+
+export const BUILTIN_MANIFEST: InstrumentManifest = {
+  banks: {
+    piano: { type: 'sampler', name: 'Piano', baseUrl: PIANO_BASE_URL, urls: PIANO_SAMPLE_URLS, release: 1 },
+  },
+  programs: {},
+  fallback: 'piano',
+};
+
+function isBank(value: unknown): value is InstrumentBank {
+  if (!value || typeof value !== 'object') return false;
+  const bank = value as Partial<InstrumentBank>;
+  if (bank.type === 'sampler') return typeof bank.baseUrl === 'string' && !!bank.urls && typeof bank.urls === 'object';
+  return bank.type === 'synth' && ['synth', 'fm', 'am'].includes(bank.voice as string);
+}
+
+/**
+ * Reads the instrument manifest, keeping the built-in piano as fallback.
+ * Banks that don't look right are dropped with a warning rather than failing the song.
+ */
+export async function loadInstrumentManifest(url: string = MANIFEST_URL): Promise<InstrumentManifest> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const raw = (await response.json()) as Partial<InstrumentManifest>;
+
+    const banks: Record<string, InstrumentBank> = { ...BUILTIN_MANIFEST.banks };
+    Object.entries(raw.banks ?? {}).forEach(([id, bank]) => {
+      if (isBank(bank)) banks[id] = { ...bank, name: bank.name || id };
+      else console.warn(`Ignoring malformed instrument bank "${id}"`);
+    });
+    const fallback = raw.fallback && banks[raw.fallback] ? raw.fallback : BUILTIN_MANIFEST.fallback;
+
+    return {
+      banks,
+      programs: raw.programs ?? {},
+      percussion: raw.percussion && banks[raw.percussion] ? raw.percussion : undefined,
+      fallback,
+    };
+  } catch (e) {
+    console.warn('Could not read instrument manifest, using the built-in piano', e);
+    return BUILTIN_MANIFEST;
+  }
+}
+
+/** Bank for a GM program (0-127) or the percussion channel; unmapped programs get the fallback. */
+export function bankForProgram(manifest: InstrumentManifest, program: number, percussion: boolean): string {
+  if (percussion) return manifest.percussion ?? manifest.fallback;
+
+  for (const [range, bankId] of Object.entries(manifest.programs)) {
+    const [from, to = from] = range.split('-').map(Number);
+    if (program >= from && program <= to && manifest.banks[bankId]) return bankId;
+  }
+  return manifest.fallback;
+}
+
+/** Downloads & decodes the samples of any sampler banks not yet in the kit. Failed samples are skipped. */
+export async function loadBanks(kit: InstrumentKit, bankIds: Iterable<string>) {
+  const pending: string[] = [];
+  for (const id of new Set(bankIds)) {
+    const bank = kit.manifest.banks[id];
+    if (bank?.type !== 'sampler' || kit.buffers.has(id)) continue;
+    kit.buffers.set(id, new Tone.ToneAudioBuffers({
+      urls: bank.urls,
+      baseUrl: bank.baseUrl,
+      onerror: (err) => console.warn(`Sample error in "${id}" (continuing anyway):`, err),
+    }));
+    pending.push(id);
+  }
+  if (pending.length === 0) return;
+
+  try {
+    await Tone.loaded();
+  } catch (err) {
+    console.warn('Some samples failed to load, continuing...', err);
+  }
+}
+
+export function disposeKit(kit: InstrumentKit) {
+  kit.buffers.forEach(buffers => buffers.dispose());
+  kit.buffers.clear();
+}
+
+// Builds a sampler on already-decoded buffers (no extra network/decoding)
+function createSampler(bank: SamplerBank, buffers: Tone.ToneAudioBuffers | undefined): Tone.Sampler | null {
+  const urls: Record<string, Tone.ToneAudioBuffer> = {};
+  for (const note of Object.keys(bank.urls)) {
+    if (buffers?.has(note) && buffers.get(note).loaded) urls[note] = buffers.get(note);
+  }
+  if (Object.keys(urls).length === 0) return null;
+  return new Tone.Sampler({ urls, release: bank.release ?? 1, volume: bank.volume ?? 0 });
+}
+
+function createSynth(bank: SynthBank): Tone.PolySynth {
+  const voice = bank.voice === 'fm' ? Tone.FMSynth : bank.voice === 'am' ? Tone.AMSynth : Tone.Synth;
+  const synth = new Tone.PolySynth(voice as typeof Tone.Synth, bank.options as Partial<Tone.SynthOptions>);
+  synth.volume.value = bank.volume ?? 0;
+  return synth;
+}
+
+/**
+ * A fresh, unconnected instrument for a bank, in the current Tone context.
+ * Sampler banks whose samples never loaded fall back to the fallback bank,
+ * so a missing sample set never leaves a track silent or throwing.
+ */
+export function createInstrument(kit: InstrumentKit, bankId: string): Instrument {
+  const bank = kit.manifest.banks[bankId];
+  if (bank?.type === 'synth') return createSynth(bank);
+  const sampler = bank ? createSampler(bank, kit.buffers.get(bankId)) : null;
+  if (sampler) return sampler;
+
+  const fallback = kit.manifest.banks[kit.manifest.fallback];
+  if (bankId !== kit.manifest.fallback && fallback) return createInstrument(kit, kit.manifest.fallback);
+  // Nothing loaded at all: a plain synth still makes the song audible
+  return new Tone.PolySynth(Tone.Synth);
+}
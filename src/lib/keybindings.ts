@@ -0,0 +1,136 @@
+// --- Computer-keyboard input: a QWERTY piano & remappable transport shortcuts ---
+// Keys are KeyboardEvent.code values, so bindings follow key positions, not the layout's letters.
+
+export type ShortcutAction =
+  | 'play-pause'
+  | 'skip-back'
+  | 'skip-forward'
+  | 'speed-down'
+  | 'speed-up'
+  | 'loop-toggle'
+  | 'mute-left-hand'
+  | 'mute-right-hand'
+  | 'octave-down'
+  | 'octave-up'
+  | 'previous-song'
+  | 'next-song';
+
+export type Shortcuts = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'play-pause', label: 'Play / pause' },
+  { action: 'skip-back', label: 'Back 5 seconds' },
+  { action: 'skip-forward', label: 'Forward 5 seconds' },
+  { action: 'speed-down', label: 'Slower' },
+  { action: 'speed-up', label: 'Faster' },
+  { action: 'loop-toggle', label: 'Loop on / off' },
+  { action: 'mute-left-hand', label: 'Mute left hand' },
+  { action: 'mute-right-hand', label: 'Mute right hand' },
+  { action: 'octave-down', label: 'Keyboard piano octave down' },
+  { action: 'octave-up', label: 'Keyboard piano octave up' },
+  { action: 'previous-song', label: 'Previous song' },
+  { action: 'next-song', label: 'Next song' },
+];
+
+export const DEFAULT_SHORTCUTS: Shortcuts = {
+  'play-pause': 'Space',
+  'skip-back': 'ArrowLeft',
+  'skip-forward': 'ArrowRight',
+  'speed-down': 'ArrowDown',
+  'speed-up': 'ArrowUp',
+  'loop-toggle': 'KeyR',
+  'mute-left-hand': 'Digit1',
+  'mute-right-hand': 'Digit2',
+  'octave-down': 'KeyZ',
+  'octave-up': 'KeyX',
+  'previous-song': 'PageUp',
+  'next-song': 'PageDown',
+};
+
+// Shortcuts that may fire repeatedly while their key is held
+export const REPEATABLE_ACTIONS: ShortcutAction[] = ['skip-back', 'skip-forward', 'speed-down', 'speed-up'];
+
+// Home row = white keys, the row above = black keys, like a DAW's typing keyboard.
+// Semitones above the C of the current octave.
+export const PIANO_KEYS: Record<string, number> = {
+  KeyA: 0, KeyW: 1, KeyS: 2, KeyE: 3, KeyD: 4, KeyF: 5, KeyT: 6, KeyG: 7,
+  KeyY: 8, KeyH: 9, KeyU: 10, KeyJ: 11, KeyK: 12, KeyO: 13, KeyL: 14, KeyP: 15,
+  Semicolon: 16, Quote: 17,
+};
+
+export const DEFAULT_PIANO_OCTAVE = 4; // KeyA = C4
+export const MIN_PIANO_OCTAVE = 0;
+export const MAX_PIANO_OCTAVE = 7;
+
+const STORAGE_KEY_SHORTCUTS = 'keyboard_shortcuts';
+
+export function loadShortcuts(): Shortcuts {
+  try {
+    return { ...DEFAULT_SHORTCUTS, ...JSON.parse(localStorage.getItem(STORAGE_KEY_SHORTCUTS) || '{}') };
+  } catch {
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+export function saveShortcuts(shortcuts: Shortcuts) {
+  localStorage.setItem(STORAGE_KEY_SHORTCUTS, JSON.stringify(shortcuts));
+}
+
+/** The note a piano key plays in `octave` (C of that octave = KeyA), or null for other keys. */
+export function pianoKeyMidi(code: string, octave: number): number | null {
+  const offset = PIANO_KEYS[code];
+  return offset === undefined ? null : (octave + 1) * 12 + offset;
+}
+
+/** The action bound to `code`, if any. */
+export function shortcutFor(shortcuts: Shortcuts, code: string): ShortcutAction | null {
+  return SHORTCUT_ACTIONS.find(({ action }) => shortcuts[action] === code)?.action ?? null;
+}
+
+/**
+ * Why `code` can't be bound to `action`: it's a piano key, it's reserved, or
+ * another action already has it. Null when the binding is fine.
+ */
+export function shortcutConflict(shortcuts: Shortcuts, action: ShortcutAction, code: string): string | null {
+  if (code === 'Escape' || code === 'Tab') return `${keyLabel(code)} is reserved.`;
+  if (PIANO_KEYS[code] !== undefined) return `${keyLabel(code)} plays a note on the keyboard piano.`;
+  const other = SHORTCUT_ACTIONS.find(a => a.action !== action && shortcuts[a.action] === code);
+  return other ? `${keyLabel(code)} is already used for “${other.label}”.` : null;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backslash: '\\',
+  Minus: '-',
+  Equal: '=',
+  Backquote: '`',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down',
+};
+
+/** A short, readable name for a key code ("KeyA" -> "A", "Digit1" -> "1"). */
+export function keyLabel(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (/^Numpad/.test(code)) return `Num ${code.slice(6)}`;
+  return code;
+}
+
+/** Keys typed into a text field or picked in a select are not shortcuts. */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) return !['range', 'checkbox', 'radio', 'button'].includes(target.type);
+  return target instanceof HTMLElement && target.isContentEditable;
+}
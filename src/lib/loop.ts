@@ -0,0 +1,56 @@
+import * as Tone from 'tone';
+
+// --- A–B loop sections & speed trainer ---
+
+export interface LoopRegion {
+  startTicks: number;
+  endTicks: number;
+}
+
+export interface SpeedTrainer {
+  enabled: boolean;
+  startSpeed: number;       // Playback speed for the first repetitions
+  step: number;             // Added after each batch of clean repetitions
+  cleanRepsPerStep: number; // Clean repetitions needed before stepping up
+  targetSpeed: number;      // Never goes past this
+}
+
+export const DEFAULT_SPEED_TRAINER: SpeedTrainer = {
+  enabled: false,
+  startSpeed: 0.6,
+  step: 0.05,
+  cleanRepsPerStep: 2,
+  targetSpeed: 1.0,
+};
+
+// Anything shorter is almost certainly a double-click, not a section
+const MIN_LOOP_BEATS = 1 / 4;
+
+/**
+ * Orders two marked points into a loop region, or returns null if they are
+ * too close together to loop sensibly.
+ */
+export function makeLoopRegion(a: number, b: number, ppq: number): LoopRegion | null {
+  const startTicks = Math.max(0, Math.round(Math.min(a, b)));
+  const endTicks = Math.round(Math.max(a, b));
+  if (endTicks - startTicks < ppq * MIN_LOOP_BEATS) return null;
+  return { startTicks, endTicks };
+}
+
+export function applyTransportLoop(region: LoopRegion | null, enabled: boolean) {
+  if (region && enabled) {
+    Tone.Transport.setLoopPoints(region.startTicks + "i", region.endTicks + "i");
+    Tone.Transport.loop = true;
+  } else {
+    Tone.Transport.loop = false;
+  }
+}
+
+/**
+ * Speed for the next repetition, given how many clean repetitions have been
+ * played at the current speed.
+ */
+export function nextTrainerSpeed(trainer: SpeedTrainer, currentSpeed: number, cleanReps: number): number {
+  if (cleanReps < trainer.cleanRepsPerStep) return currentSpeed;
+  return Math.min(trainer.targetSpeed, currentSpeed + trainer.step);
+}
@@ -0,0 +1,35 @@
+// --- Section markers from MIDI meta events ---
+
+export interface SectionMarker {
+  ticks: number;
+  text: string;
+}
+
+export interface MetaEvent {
+  ticks: number;
+  text: string;
+  type: string; // "marker" | "cuePoint" | "text" | "lyrics", as @tonejs/midi reports it
+}
+
+// Lyrics are meta text too, but one per syllable is not a section
+const SECTION_EVENT_TYPES = new Set(['marker', 'cuePoint', 'text']);
+
+/**
+ * Marker, cue point and text events as labeled sections, in order. Blank
+ * events and repeats of the same label at the same tick are dropped.
+ */
+export function buildSectionMarkers(events: MetaEvent[]): SectionMarker[] {
+  const markers: SectionMarker[] = [];
+  const seen = new Set<string>();
+  events
+    .filter(e => SECTION_EVENT_TYPES.has(e.type))
+    .sort((a, b) => a.ticks - b.ticks)
+    .forEach((event) => {
+      const text = event.text.trim();
+      const key = `${event.ticks}:${text}`;
+      if (!text || seen.has(key)) return;
+      seen.add(key);
+      markers.push({ ticks: event.ticks, text });
+    });
+  return markers;
+}
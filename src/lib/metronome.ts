@@ -0,0 +1,99 @@
+import * as Tone from 'tone';
+import { beatsBetween, meterAt, tempoAt, type Beat, type TempoMap } from './tempoMap';
+import type { Transport } from './scheduler';
+
+// --- Metronome click track & count-in ---
+
+export interface MetronomeSettings {
+  enabled: boolean;       // Click along with the song
+  volume: number;         // Linear gain, 0..1; at 0 only the HUD pulse is left
+  countInBars: number;    // Bars counted in before playback starts (0 = off)
+  countInOnLoop: boolean; // Count in again before every loop repetition
+}
+
+export const DEFAULT_METRONOME: MetronomeSettings = {
+  enabled: false,
+  volume: 0.6,
+  countInBars: 0,
+  countInOnLoop: false,
+};
+
+export const COUNT_IN_BAR_OPTIONS = [0, 1, 2];
+
+// A short woodblock-like tick; the downbeat is higher and louder
+const ACCENT_NOTE = 'E6';
+const BEAT_NOTE = 'A5';
+const ACCENT_VELOCITY = 1;
+const BEAT_VELOCITY = 0.55;
+const CLICK_SECONDS = 0.03;
+
+export interface MetronomeVoice {
+  synth: Tone.Synth;
+  output: Tone.Volume;
+}
+
+export interface CountInBeat {
+  offset: number; // Seconds after the count-in starts
+  beat: number;   // 1-based
+  accent: boolean;
+}
+
+export function createMetronomeVoice(volume: number): MetronomeVoice {
+  const output = new Tone.Volume().toDestination();
+  const synth = new Tone.Synth({
+    oscillator: { type: 'triangle' },
+    envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 },
+  }).connect(output);
+  const voice = { synth, output };
+  setMetronomeVolume(voice, volume);
+  return voice;
+}
+
+export function setMetronomeVolume(voice: MetronomeVoice, volume: number) {
+  voice.output.volume.value = volume > 0 ? Tone.gainToDb(volume) : -Infinity;
+}
+
+export function playClick(voice: MetronomeVoice, time: number, accent: boolean) {
+  voice.synth.triggerAttackRelease(
+    accent ? ACCENT_NOTE : BEAT_NOTE,
+    CLICK_SECONDS,
+    time,
+    accent ? ACCENT_VELOCITY : BEAT_VELOCITY
+  );
+}
+
+export function disposeMetronomeVoice(voice: MetronomeVoice) {
+  voice.synth.dispose();
+  voice.output.dispose();
+}
+
+/**
+ * One Transport callback per beat of the song, following its time signatures.
+ * Beats sit at tick positions, so the clicks follow tempo changes and playback
+ * speed with no rescheduling. Returns the event ids.
+ */
+export function scheduleMetronome(
+  transport: Transport,
+  tempoMap: TempoMap,
+  endTicks: number,
+  onBeat: (time: number, beat: Beat) => void
+): number[] {
+  return beatsBetween(tempoMap, 0, endTicks).map((beat) =>
+    transport.schedule((time) => onBeat(time, beat), beat.ticks + 'i')
+  );
+}
+
+/**
+ * Clicks for counting in `bars` bars before `ticks`, in the meter and tempo in
+ * force there, at the given playback speed.
+ */
+export function countInBeats(map: TempoMap, ticks: number, bars: number, speed: number) {
+  const [numerator, denominator] = meterAt(map, ticks);
+  const beatSeconds = (60 / (tempoAt(map, ticks) * speed)) * (4 / denominator);
+  const beats: CountInBeat[] = [];
+  for (let i = 0; i < bars * numerator; i++) {
+    const beat = (i % numerator) + 1;
+    beats.push({ offset: i * beatSeconds, beat, accent: beat === 1 });
+  }
+  return { beats, duration: beats.length * beatSeconds };
+}
@@ -0,0 +1,143 @@
+import { PIANO_MAX, PIANO_MIN } from './transpose';
+import { midiToNoteName } from './noteNames';
+
+// --- Validation of song files (MIDI, and scores once imported), reported as specific, user-facing messages ---
+
+export type DiagnosticCode =
+  | 'not-midi'
+  | 'truncated-chunk'
+  | 'format-2'
+  | 'smpte-timing'
+  | 'parse-failed'
+  | 'no-notes'
+  | 'out-of-range-notes'
+  | 'score-unreadable'      // MusicXML / ABC that can't be read at all
+  | 'unsupported-feature';  // Score notation we can't play (an error) or play only approximately (a warning)
+
+export interface MidiDiagnostic {
+  code: DiagnosticCode;
+  severity: 'error' | 'warning'; // Errors stop the song from loading
+  message: string;
+}
+
+/** Thrown (or rejected) when a file can't be played; carries what was wrong with it. */
+export class MidiFileError extends Error {
+  diagnostics: MidiDiagnostic[];
+
+  constructor(diagnostics: MidiDiagnostic[]) {
+    super(diagnostics.map(d => d.message).join(' '));
+    this.name = 'MidiFileError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+const HEADER_LENGTH = 6;   // format, track count, division
+const CHUNK_PREAMBLE = 8;  // 4-byte type + 32-bit length
+
+function chunkType(view: DataView, offset: number) {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Checks the Standard MIDI File structure before handing it to the parser:
+ * the MThd header, a format and timing we can play, and every chunk complete.
+ */
+export function inspectMidiBytes(data: ArrayBuffer): MidiDiagnostic[] {
+  const view = new DataView(data);
+  if (data.byteLength < CHUNK_PREAMBLE + HEADER_LENGTH || chunkType(view, 0) !== 'MThd') {
+    return [{
+      code: 'not-midi',
+      severity: 'error',
+      message: "This isn't a file we can play: it's not MIDI (no MThd header), MusicXML (.musicxml, .xml, .mxl) or ABC.",
+    }];
+  }
+
+  const diagnostics: MidiDiagnostic[] = [];
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const division = view.getUint16(12);
+
+  if (format === 2) {
+    diagnostics.push({
+      code: 'format-2',
+      severity: 'error',
+      message: 'This is a format 2 MIDI file (a set of independent patterns), which can\'t be played as one song. Save it as format 0 or 1.',
+    });
+  }
+  if (division & 0x8000) {
+    // Top byte is the negative frame rate, bottom byte the ticks per frame
+    const fps = -((division >> 8) - 256);
+    diagnostics.push({
+      code: 'smpte-timing',
+      severity: 'error',
+      message: `This file is timed in SMPTE frames (${fps} fps) rather than beats, which isn't supported. Export it with beat-based (PPQ) timing.`,
+    });
+  }
+
+  // Every chunk must fit in what's left of the file
+  let offset = CHUNK_PREAMBLE + headerLength;
+  while (offset < data.byteLength) {
+    const remaining = data.byteLength - offset;
+    if (remaining < CHUNK_PREAMBLE) {
+      diagnostics.push({
+        code: 'truncated-chunk',
+        severity: 'error',
+        message: `The file is cut off: it ends ${remaining} bytes into a chunk header at byte ${offset}.`,
+      });
+      break;
+    }
+    const type = chunkType(view, offset);
+    const length = view.getUint32(offset + 4);
+    if (length > remaining - CHUNK_PREAMBLE) {
+      diagnostics.push({
+        code: 'truncated-chunk',
+        severity: 'error',
+        message: `The file is cut off: the ${type} chunk at byte ${offset} should hold ${length} bytes, but only ${remaining - CHUNK_PREAMBLE} are left.`,
+      });
+      break;
+    }
+    offset += CHUNK_PREAMBLE + length;
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Checks the parsed notes: something to play, and on the 88 keys. Drum tracks
+ * (`percussion`) are skipped for the range check; their pitch picks a drum.
+ */
+export function inspectNotes(notes: { midi: number; trackIndex: number }[], percussion: Set<number>): MidiDiagnostic[] {
+  if (notes.length === 0) {
+    return [{
+      code: 'no-notes',
+      severity: 'error',
+      message: 'The file was read, but it has no notes to play.',
+    }];
+  }
+
+  let outside = 0;
+  let lowest = Infinity;
+  let highest = -Infinity;
+  for (const note of notes) {
+    if (percussion.has(note.trackIndex) || (note.midi >= PIANO_MIN && note.midi <= PIANO_MAX)) continue;
+    outside++;
+    lowest = Math.min(lowest, note.midi);
+    highest = Math.max(highest, note.midi);
+  }
+  if (outside === 0) return [];
+  const range = lowest === highest ? midiToNoteName(lowest) : `${midiToNoteName(lowest)}–${midiToNoteName(highest)}`;
+  return [{
+    code: 'out-of-range-notes',
+    severity: 'warning',
+    message: `${outside} note${outside > 1 ? 's are' : ' is'} outside the piano's range (${range}); they're played an octave or more back inside and drawn dashed.`,
+  }];
+}
+
+export function hasErrors(diagnostics: MidiDiagnostic[]): boolean {
+  return diagnostics.some(d => d.severity === 'error');
+}
@@ -0,0 +1,277 @@
+import { childElement, childElements, childNumber, childText, parseXml, type XmlElement } from './xml';
+import {
+  DEFAULT_SCORE_VELOCITY,
+  DYNAMICS_VELOCITY,
+  SCORE_PPQ,
+  createWarnings,
+  keyFromFifths,
+  unsupportedScore,
+  type ImportedNote,
+  type ImportedScore,
+  type ImportedTrack,
+} from './importedScore';
+
+// --- MusicXML (partwise, as every notation program exports it) -> imported score ---
+
+const STEP_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const PERCUSSION_CHANNEL = 10;
+// <sound dynamics> is a percentage of forte, which MusicXML puts at velocity 90
+const FORTE_VELOCITY = 90;
+// <metronome> beat units, in quarter notes
+const BEAT_UNITS: Record<string, number> = { whole: 4, half: 2, quarter: 1, eighth: 0.5, '16th': 0.25, '32nd': 0.125 };
+
+interface PartInfo {
+  name: string;
+  instrument: string;
+  program: number;
+  percussion: boolean;
+  unpitched: Map<string, number>; // score-instrument id -> drum (MIDI note)
+}
+
+function readPartList(root: XmlElement): Map<string, PartInfo> {
+  const parts = new Map<string, PartInfo>();
+  const partList = childElement(root, 'part-list');
+  if (!partList) return parts;
+  for (const scorePart of childElements(partList, 'score-part')) {
+    const id = scorePart.attributes.id;
+    const name = childText(scorePart, 'part-name') || id;
+    const midiInstruments = childElements(scorePart, 'midi-instrument');
+    const unpitched = new Map<string, number>();
+    midiInstruments.forEach(midi => {
+      const note = childNumber(midi, 'midi-unpitched');
+      if (note !== undefined) unpitched.set(midi.attributes.id, note - 1);
+    });
+    const first = midiInstruments[0];
+    const scoreInstrument = childElement(scorePart, 'score-instrument');
+    parts.set(id, {
+      name,
+      instrument: (scoreInstrument && childText(scoreInstrument, 'instrument-name')) || name,
+      program: first ? Math.max(0, Math.min(127, (childNumber(first, 'midi-program') ?? 1) - 1)) : 0,
+      percussion: (first && childNumber(first, 'midi-channel') === PERCUSSION_CHANNEL) || unpitched.size > 0,
+      unpitched,
+    });
+  }
+  return parts;
+}
+
+function readSource(source: string): XmlElement {
+  try {
+    return parseXml(source);
+  } catch (e) {
+    throw unsupportedScore(`The MusicXML couldn't be read: ${e instanceof Error ? e.message : String(e)}.`, 'score-unreadable');
+  }
+}
+
+/**
+ * Reads a MusicXML score: one track per part (per staff, for parts on several
+ * staves, so a piano part gives a track per hand), with ties joined, tempo
+ * from <sound> or metronome marks, and meter, key & rehearsal marks from the
+ * top part. What can't be played exactly (grace notes, repeats, microtones)
+ * is listed in the warnings.
+ */
+export function importMusicXml(source: string): ImportedScore {
+  const root = readSource(source);
+  if (root.name === 'score-timewise') {
+    throw unsupportedScore('This MusicXML is laid out measure by measure (score-timewise). Export it part by part (score-partwise), the usual layout.');
+  }
+  if (root.name === 'opus') {
+    throw unsupportedScore('This MusicXML file is an opus, a list of other scores. Open the scores it lists instead.');
+  }
+  if (root.name !== 'score-partwise') {
+    throw unsupportedScore(`This XML file isn't a MusicXML score: its root element is <${root.name}>.`, 'score-unreadable');
+  }
+
+  const warnings = createWarnings();
+  const partInfos = readPartList(root);
+  const tempos = new Map<number, number>(); // ticks -> bpm; any part may carry them
+  const score: ImportedScore = {
+    ppq: SCORE_PPQ,
+    tempos: [],
+    timeSignatures: [],
+    keySignatures: [],
+    markers: [],
+    tracks: [],
+    warnings: [],
+  };
+
+  childElements(root, 'part').forEach((part, partIndex) => {
+    const info = partInfos.get(part.attributes.id) ?? {
+      name: `Part ${partIndex + 1}`,
+      instrument: 'piano',
+      program: 0,
+      percussion: false,
+      unpitched: new Map<string, number>(),
+    };
+    const top = partIndex === 0; // Meter, key & rehearsal marks are read once, from the top part
+    const staves = new Map<number, ImportedTrack>();
+    const trackFor = (staff: number) => {
+      let track = staves.get(staff);
+      if (!track) {
+        track = { name: info.name, instrument: info.instrument, program: info.program, percussion: info.percussion, notes: [] };
+        staves.set(staff, track);
+      }
+      return track;
+    };
+    const openTies = new Map<string, ImportedNote>(); // "staff:midi" -> note a tie carries on
+
+    let divisions = 1;
+    let transposition = 0; // Written -> sounding, for transposing instruments
+    let velocity = DEFAULT_SCORE_VELOCITY;
+    let measureStart = 0;
+
+    const readSound = (sound: XmlElement, ticks: number) => {
+      const tempo = Number(sound.attributes.tempo);
+      if (sound.attributes.tempo && tempo > 0) tempos.set(ticks, tempo);
+      const dynamics = Number(sound.attributes.dynamics);
+      if (sound.attributes.dynamics && dynamics >= 0) velocity = Math.min(1, (dynamics / 100) * FORTE_VELOCITY / 127);
+    };
+
+    for (const measure of childElements(part, 'measure')) {
+      let position = measureStart;
+      let measureEnd = measureStart;
+      let chordStart = measureStart;
+      const toTicks = (duration: number) => Math.round((duration * SCORE_PPQ) / divisions);
+
+      for (const element of measure.children) {
+        switch (element.name) {
+          case 'attributes': {
+            divisions = childNumber(element, 'divisions') ?? divisions;
+            const transpose = childElement(element, 'transpose');
+            if (transpose) {
+              transposition = (childNumber(transpose, 'chromatic') ?? 0) + 12 * (childNumber(transpose, 'octave-change') ?? 0);
+            }
+            if (!top) break;
+            const key = childElement(element, 'key');
+            const fifths = key && childNumber(key, 'fifths');
+            if (key && fifths !== undefined) {
+              score.keySignatures.push(keyFromFifths(position, fifths, childText(key, 'mode') === 'minor'));
+            }
+            const time = childElement(element, 'time');
+            const beats = time && childText(time, 'beats');
+            const beatType = time && childNumber(time, 'beat-type');
+            if (beats && beatType) {
+              // Additive meters ("3+2") count as their sum
+              const numerator = beats.split('+').reduce((sum, n) => sum + Number(n), 0);
+              if (numerator > 0) score.timeSignatures.push({ ticks: position, timeSignature: [numerator, beatType] });
+            }
+            break;
+          }
+
+          case 'direction': {
+            for (const directionType of childElements(element, 'direction-type')) {
+              for (const mark of directionType.children) {
+                if (mark.name === 'rehearsal' && top && mark.text.trim()) {
+                  score.markers.push({ ticks: position, text: mark.text.trim(), type: 'marker' });
+                } else if (mark.name === 'dynamics') {
+                  const level = mark.children.find(c => DYNAMICS_VELOCITY[c.name] !== undefined);
+                  if (level) velocity = DYNAMICS_VELOCITY[level.name];
+                } else if (mark.name === 'metronome') {
+                  const unit = BEAT_UNITS[childText(mark, 'beat-unit') ?? ''];
+                  const perMinute = childNumber(mark, 'per-minute');
+                  const dotted = childElement(mark, 'beat-unit-dot') ? 1.5 : 1;
+                  if (unit && perMinute && !tempos.has(position)) tempos.set(position, perMinute * unit * dotted);
+                }
+              }
+            }
+            const sound = childElement(element, 'sound');
+            if (sound) readSound(sound, position);
+            break;
+          }
+
+          case 'sound':
+            readSound(element, position);
+            break;
+
+          case 'backup':
+            position -= toTicks(childNumber(element, 'duration') ?? 0);
+            break;
+
+          case 'forward':
+            position += toTicks(childNumber(element, 'duration') ?? 0);
+            measureEnd = Math.max(measureEnd, position);
+            break;
+
+          case 'barline':
+            if (childElement(element, 'repeat') || childElement(element, 'ending')) {
+              warnings.add('repeats', 'Repeats and 1st/2nd endings are played straight through, once.');
+            }
+            break;
+
+          case 'note': {
+            if (childElement(element, 'grace')) {
+              warnings.add('grace', 'Grace notes are left out.');
+              break;
+            }
+            if (childElement(element, 'cue')) break;
+            const duration = toTicks(childNumber(element, 'duration') ?? 0);
+            const inChord = !!childElement(element, 'chord');
+            const start = inChord ? chordStart : position;
+            if (!inChord) {
+              chordStart = position;
+              position += duration;
+              measureEnd = Math.max(measureEnd, position);
+            }
+            if (childElement(element, 'rest')) break;
+
+            let midi: number | undefined;
+            const pitch = childElement(element, 'pitch');
+            if (pitch) {
+              const step = STEP_PITCHES[childText(pitch, 'step') ?? ''];
+              const octave = childNumber(pitch, 'octave');
+              const alter = childNumber(pitch, 'alter') ?? 0;
+              if (step === undefined || octave === undefined) {
+                warnings.add('pitch', 'Notes with an unreadable pitch are left out.');
+                break;
+              }
+              if (!Number.isInteger(alter)) warnings.add('microtones', 'Microtones are rounded to the nearest semitone.');
+              midi = (octave + 1) * 12 + step + Math.round(alter) + transposition;
+            } else if (childElement(element, 'unpitched')) {
+              const instrumentId = childElement(element, 'instrument')?.attributes.id;
+              midi = (instrumentId !== undefined ? info.unpitched.get(instrumentId) : undefined) ?? [...info.unpitched.values()][0];
+              if (midi === undefined) {
+                warnings.add('unpitched', 'Percussion notes without a MIDI drum assigned are left out.');
+                break;
+              }
+            }
+            if (midi === undefined || midi < 0 || midi > 127) break;
+
+            const staff = info.percussion ? 1 : childNumber(element, 'staff') ?? 1;
+            const ties = childElements(element, 'tie').map(tie => tie.attributes.type);
+            const tieKey = `${staff}:${midi}`;
+            const tiedFrom = ties.includes('stop') ? openTies.get(tieKey) : undefined;
+            let note: ImportedNote;
+            if (tiedFrom) {
+              tiedFrom.durationTicks = start + duration - tiedFrom.ticks;
+              note = tiedFrom;
+            } else {
+              const noteDynamics = Number(element.attributes.dynamics);
+              note = {
+                midi,
+                ticks: start,
+                durationTicks: duration,
+                velocity: element.attributes.dynamics && noteDynamics >= 0
+                  ? Math.min(1, (noteDynamics / 100) * FORTE_VELOCITY / 127)
+                  : velocity,
+              };
+              trackFor(staff).notes.push(note);
+            }
+            if (ties.includes('start')) openTies.set(tieKey, note);
+            else openTies.delete(tieKey);
+            break;
+          }
+        }
+      }
+      measureStart = Math.max(measureEnd, position);
+    }
+
+    const staffTracks = [...staves].sort(([a], [b]) => a - b);
+    staffTracks.forEach(([staff, track]) => {
+      if (staffTracks.length > 1) track.name = `${info.name} (staff ${staff})`;
+      score.tracks.push(track);
+    });
+  });
+
+  score.tempos = [...tempos].map(([ticks, bpm]) => ({ ticks, bpm }));
+  score.warnings = warnings.list();
+  return score;
+}
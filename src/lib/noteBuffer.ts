@@ -0,0 +1,112 @@
+import type { NoteData } from './types';
+
+// --- Compact, time-indexed note storage for the waterfall ---
+
+export const NOTE_FOLDED = 1; // Flag bit: shifted back onto the keyboard after transposing
+
+// Bucket width as a multiple of the median note length: wide enough that few notes
+// outlast a bucket, narrow enough that looking one bucket back stays cheap
+const BUCKET_NOTE_LENGTHS = 4;
+
+/**
+ * Struct-of-arrays copy of the played notes, in the same order (by ticks),
+ * so index i here is notesRef[i]. Plain typed arrays, so posting it to a
+ * worker is a flat memory copy rather than a walk over 100k objects.
+ *
+ * The time index: notes no longer than `bucketTicks` are found by their start,
+ * looking one bucket back; longer ones are listed in every fixed-width time
+ * bucket they overlap (bucket b's are longNotes[longStart[b]..longStart[b + 1]]).
+ */
+export interface NoteBuffer {
+  count: number;
+  ticks: Float64Array;
+  durationTicks: Float64Array;
+  midi: Uint8Array;
+  track: Int16Array;
+  velocity: Uint8Array; // 0..127, as written
+  flags: Uint8Array;
+  bucketTicks: number;
+  longStart: Uint32Array;
+  longNotes: Uint32Array;
+}
+
+/** Expects `notes` sorted by ticks, as the player keeps them. */
+export function buildNoteBuffer(notes: NoteData[]): NoteBuffer {
+  const count = notes.length;
+  const durations = Float64Array.from(notes, note => note.durationTicks).sort();
+  const bucketTicks = Math.max(1, (durations[count >> 1] ?? 0) * BUCKET_NOTE_LENGTHS);
+  const bucketOf = (ticks: number) => Math.max(0, Math.floor(ticks / bucketTicks));
+
+  const long = notes.flatMap((note, i) => (note.durationTicks > bucketTicks ? [i] : []));
+  const bucketCount = long.reduce((n, i) => Math.max(n, bucketOf(notes[i].ticks + notes[i].durationTicks) + 1), 0);
+  const longStart = new Uint32Array(bucketCount + 1);
+  long.forEach(i => {
+    for (let b = bucketOf(notes[i].ticks); b <= bucketOf(notes[i].ticks + notes[i].durationTicks); b++) longStart[b + 1]++;
+  });
+  for (let b = 0; b < bucketCount; b++) longStart[b + 1] += longStart[b];
+  const longNotes = new Uint32Array(longStart[bucketCount]);
+  const filled = longStart.slice(0, bucketCount);
+  long.forEach(i => {
+    for (let b = bucketOf(notes[i].ticks); b <= bucketOf(notes[i].ticks + notes[i].durationTicks); b++) longNotes[filled[b]++] = i;
+  });
+
+  const buffer: NoteBuffer = {
+    count,
+    ticks: new Float64Array(count),
+    durationTicks: new Float64Array(count),
+    midi: new Uint8Array(count),
+    track: new Int16Array(count),
+    velocity: new Uint8Array(count),
+    flags: new Uint8Array(count),
+    bucketTicks,
+    longStart,
+    longNotes,
+  };
+  notes.forEach((note, i) => {
+    buffer.ticks[i] = note.ticks;
+    buffer.durationTicks[i] = note.durationTicks;
+    buffer.midi[i] = note.midi;
+    buffer.track[i] = note.trackIndex;
+    buffer.velocity[i] = Math.round(note.velocity * 127);
+    buffer.flags[i] = note.folded ? NOTE_FOLDED : 0;
+  });
+  return buffer;
+}
+
+export const EMPTY_NOTE_BUFFER = buildNoteBuffer([]);
+
+/** Index of the first note starting at or after `ticks`, by binary search. */
+export function firstNoteStartingAt(buffer: NoteBuffer, ticks: number): number {
+  let lo = 0;
+  let hi = buffer.count;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (buffer.ticks[mid] < ticks) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Calls `visit` once for every note overlapping `from`..`to` (ending at or after
+ * `from`, starting at or before `to`): short notes in order, then long ones. The
+ * walk covers only the window plus one bucket, however long the earlier notes
+ * ring, so seeking anywhere in a 100k-note file stays cheap.
+ */
+export function forEachNoteIn(buffer: NoteBuffer, from: number, to: number, visit: (i: number) => void) {
+  const { ticks, durationTicks, bucketTicks, longStart, longNotes } = buffer;
+  for (let i = firstNoteStartingAt(buffer, from - bucketTicks); i < buffer.count && ticks[i] <= to; i++) {
+    if (durationTicks[i] <= bucketTicks && ticks[i] + durationTicks[i] >= from) visit(i);
+  }
+
+  // A long note sits in several buckets: visit it from the first one in range
+  const firstBucket = Math.max(0, Math.floor(from / bucketTicks));
+  const lastBucket = Math.min(longStart.length - 2, Math.floor(to / bucketTicks));
+  for (let b = firstBucket; b <= lastBucket; b++) {
+    for (let k = longStart[b]; k < longStart[b + 1]; k++) {
+      const i = longNotes[k];
+      if (Math.max(firstBucket, Math.floor(ticks[i] / bucketTicks)) !== b) continue;
+      if (ticks[i] <= to && ticks[i] + durationTicks[i] >= from) visit(i);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { NOTE_NAMES } from './noteNames';
+
+// --- Labels for keys & falling notes ---
+
+export type LabelMode = 'none' | 'name' | 'solfege' | 'degree' | 'finger';
+
+export const LABEL_MODES: { value: LabelMode; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'name', label: 'Note names' },
+  { value: 'solfege', label: 'Solfège (fixed do)' },
+  { value: 'degree', label: 'Scale degrees' },
+  { value: 'finger', label: 'Fingering' },
+];
+
+export interface KeySignature {
+  ticks: number;
+  tonic: number;     // Pitch class, 0 = C
+  minor: boolean;
+}
+
+export interface KeySignatureEvent {
+  ticks: number;
+  key: string;       // "C", "Bb", "F#"... as @tonejs/midi reports it
+  scale: string;     // "major" | "minor"
+}
+
+const SOLFEGE = ['Do', 'Do♯', 'Re', 'Re♯', 'Mi', 'Fa', 'Fa♯', 'Sol', 'Sol♯', 'La', 'La♯', 'Si'];
+
+// Semitones above the tonic -> degree, spelled the way the key would
+const MAJOR_DEGREES = ['1', '♭2', '2', '♭3', '3', '4', '♯4', '5', '♭6', '6', '♭7', '7'];
+const MINOR_DEGREES = ['1', '♭2', '2', '3', '♯3', '4', '♯4', '5', '6', '♯6', '7', '♯7'];
+
+const LETTER_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Songs with no key signature are read in C major
+const DEFAULT_KEY: KeySignature = { ticks: 0, tonic: 0, minor: false };
+
+function pitchClass(midi: number) {
+  return ((midi % 12) + 12) % 12;
+}
+
+function parseTonic(key: string): number | null {
+  const letter = LETTER_PITCHES[key.charAt(0).toUpperCase()];
+  if (letter === undefined) return null;
+  const accidentals = key.slice(1);
+  const offset = [...accidentals].reduce((sum, c) => sum + (c === '#' ? 1 : c === 'b' ? -1 : 0), 0);
+  return pitchClass(letter + offset);
+}
+
+export function buildKeySignatures(events: KeySignatureEvent[]): KeySignature[] {
+  const keys = [...events]
+    .sort((a, b) => a.ticks - b.ticks)
+    .flatMap((event) => {
+      const tonic = parseTonic(event.key);
+      return tonic === null ? [] : [{ ticks: event.ticks, tonic, minor: event.scale === 'minor' }];
+    });
+  if (keys.length === 0 || keys[0].ticks > 0) keys.unshift(DEFAULT_KEY);
+  return keys;
+}
+
+/** The key in force at `ticks`, moved by the song's transposition. */
+export function keyAt(keys: KeySignature[], ticks: number, transpose = 0): KeySignature {
+  let key = keys[0] ?? DEFAULT_KEY;
+  for (const candidate of keys) {
+    if (candidate.ticks > ticks) break;
+    key = candidate;
+  }
+  return transpose === 0 ? key : { ...key, tonic: pitchClass(key.tonic + transpose) };
+}
+
+export function formatKey(key: KeySignature): string {
+  return `${NOTE_NAMES[key.tonic]} ${key.minor ? 'minor' : 'major'}`;
+}
+
+/**
+ * The label for one note. `name` is the note's own spelling (e.g. NoteData.name);
+ * without one, the pitch class is used. Returns '' when there's nothing to show,
+ * e.g. fingering for a note that has none.
+ */
+export function noteLabel(
+  mode: LabelMode,
+  midi: number,
+  context: { key: KeySignature; name?: string; finger?: number }
+): string {
+  switch (mode) {
+    case 'name':
+      return context.name ?? NOTE_NAMES[pitchClass(midi)];
+    case 'solfege':
+      return SOLFEGE[pitchClass(midi)];
+    case 'degree': {
+      const degrees = context.key.minor ? MINOR_DEGREES : MAJOR_DEGREES;
+      return degrees[pitchClass(midi - context.key.tonic)];
+    }
+    case 'finger':
+      return context.finger ? String(context.finger) : '';
+    default:
+      return '';
+  }
+}
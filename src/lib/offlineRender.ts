@@ -0,0 +1,80 @@
+import * as Tone from 'tone';
+import type { NoteData } from './types';
+import { tempoAt, ticksToSeconds, type TempoMap } from './tempoMap';
+import { createTrackVoice, type TrackMix } from './trackMixer';
+import type { Instrument, InstrumentKit } from './instruments';
+import { scheduleSong } from './scheduler';
+import type { VelocityCurve } from './dynamics';
+import { encodeWav } from './wav';
+
+// --- Offline export (what the player hears, rendered faster than realtime) ---
+
+export interface RenderOptions {
+  notes: NoteData[];
+  tempoMap: TempoMap;
+  speed: number;
+  velocityCurve?: VelocityCurve;
+  kit: InstrumentKit;                   // Already-loaded banks, shared with playback
+  mixes: Record<number, TrackMix>;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Room for the last notes' release to ring out
+const RELEASE_TAIL_SECONDS = 2;
+const SAMPLE_RATE = 44100;
+const PROGRESS_INTERVAL_MS = 100;
+
+function exportDuration(notes: NoteData[], tempoMap: TempoMap, speed: number): number {
+  const endTicks = notes.reduce((end, note) => Math.max(end, note.ticks + note.sustainTicks), 0);
+  return ticksToSeconds(tempoMap, endTicks) / speed + RELEASE_TAIL_SECONDS;
+}
+
+/**
+ * Renders the song through fresh per-track voices in an offline context,
+ * with the same schedule, mix, playback speed and velocity curve as live playback.
+ * Rejects with an AbortError when `signal` is aborted.
+ */
+export async function renderSong({ notes, tempoMap, speed, velocityCurve, kit, mixes, onProgress, signal }: RenderOptions): Promise<AudioBuffer> {
+  signal?.throwIfAborted();
+  const duration = exportDuration(notes, tempoMap, speed);
+  let lastReport = 0;
+
+  const rendered = await Tone.Offline((context) => {
+    // Throwing from the clock aborts the render loop
+    context.on('tick', () => {
+      signal?.throwIfAborted();
+      const now = performance.now();
+      if (onProgress && now - lastReport > PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress(Math.min(1, context.currentTime / duration));
+      }
+    });
+
+    const instruments = new Map<number, Instrument>();
+    Object.entries(mixes).forEach(([trackIndex, mix]) => {
+      instruments.set(Number(trackIndex), createTrackVoice(kit, mix).instrument);
+    });
+
+    const transport = context.transport;
+    scheduleSong({
+      transport,
+      notes,
+      tempoMap,
+      getSpeed: () => speed,
+      getInstrument: (trackIndex) => instruments.get(trackIndex),
+      getVelocityCurve: velocityCurve ? () => velocityCurve : undefined,
+    });
+    transport.bpm.value = tempoAt(tempoMap, 0) * speed;
+    transport.start(0);
+  }, duration, 2, SAMPLE_RATE);
+
+  onProgress?.(1);
+  const audio = rendered.get();
+  if (!audio) throw new Error('Offline render produced no audio');
+  return audio;
+}
+
+export async function renderSongToWav(options: RenderOptions): Promise<Blob> {
+  return encodeWav(await renderSong(options));
+}
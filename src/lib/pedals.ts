@@ -0,0 +1,213 @@
+import type { NoteData } from './types';
+
+// --- Pedal (CC64 / CC66 / CC67) handling ---
+
+export interface PedalSpan {
+  startTicks: number;
+  endTicks: number;
+}
+
+export interface Pedals {
+  sustain: PedalSpan[];   // CC64
+  sostenuto: PedalSpan[]; // CC66
+  soft: PedalSpan[];      // CC67
+}
+
+export type PedalName = keyof Pedals;
+
+interface ControlChangeEvent {
+  ticks: number;
+  value: number; // Normalised 0..1 by @tonejs/midi
+}
+
+export const CC_SUSTAIN = 64;
+export const CC_SOSTENUTO = 66;
+export const CC_SOFT = 67;
+
+// Pedals are switches for our purposes; half-pedalling counts as down past this
+const PEDAL_DOWN_THRESHOLD = 0.5;
+// How much quieter notes struck under the soft pedal are played
+export const SOFT_PEDAL_VELOCITY = 0.7;
+
+export const EMPTY_PEDALS: Pedals = { sustain: [], sostenuto: [], soft: [] };
+
+function toSpans(events: ControlChangeEvent[] | undefined, endTicks: number): PedalSpan[] {
+  if (!events || events.length === 0) return [];
+  const spans: PedalSpan[] = [];
+  let downAt: number | null = null;
+
+  for (const event of [...events].sort((a, b) => a.ticks - b.ticks)) {
+    const isDown = event.value >= PEDAL_DOWN_THRESHOLD;
+    if (isDown && downAt === null) {
+      downAt = event.ticks;
+    } else if (!isDown && downAt !== null) {
+      if (event.ticks > downAt) spans.push({ startTicks: downAt, endTicks: event.ticks });
+      downAt = null;
+    }
+  }
+  // Pedal never lifted: hold it to the end of the song
+  if (downAt !== null) spans.push({ startTicks: downAt, endTicks: Math.max(endTicks, downAt) });
+  return spans;
+}
+
+// --- The channel each parsed track's events were sent on ---
+// @tonejs/midi gives a track the channel of its first note (0 if it has none) and drops the
+// channel of controller events, so a pedal-only track would land on the wrong channel
+
+function readVarLength(view: DataView, pos: number, end: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 4 && pos < end; i++) {
+    const byte = view.getUint8(pos++);
+    value = (value << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return [value, pos];
+}
+
+interface SplitTrack {
+  channel: number | null;
+  hasNotes: boolean;
+}
+
+// One MTrk chunk, split the way @tonejs/midi splits it: a track per (program, channel) in order of
+// first use, events without a channel going to the first of them
+function splitChunk(view: DataView, start: number, end: number, tracks: SplitTrack[]) {
+  const first = tracks.length;
+  const byKey = new Map<string, number>();
+  const program = new Array<number>(16).fill(0);
+  const add = (index: number, channel: number | null) => {
+    if (!tracks[index]) tracks.push({ channel, hasNotes: false });
+    return tracks[index];
+  };
+
+  let pos = start;
+  let running = 0;
+  while (pos < end) {
+    [, pos] = readVarLength(view, pos, end); // Delta time
+    if (pos >= end) break;
+    let status = view.getUint8(pos);
+    if (status & 0x80) pos++;
+    else status = running; // Running status: the byte is already data
+    if (status === 0xff || status === 0xf0 || status === 0xf7) {
+      const [length, dataStart] = readVarLength(view, status === 0xff ? pos + 1 : pos, end);
+      pos = dataStart + length;
+      running = 0;
+      add(first, null);
+      continue;
+    }
+    if (!(status & 0x80)) return; // Data with no status to run on: leave the rest to the parser
+    running = status;
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+    if (kind === 0xc0 && pos < end) program[channel] = view.getUint8(pos);
+    const key = `${program[channel]} ${channel}`;
+    if (!byKey.has(key)) byKey.set(key, first + byKey.size);
+    const track = add(byKey.get(key)!, channel);
+    track.channel ??= channel;
+    if (kind === 0x90 && pos + 1 < end && view.getUint8(pos + 1) > 0) track.hasNotes = true;
+    pos += kind === 0xc0 || kind === 0xd0 ? 1 : 2;
+  }
+}
+
+/**
+ * Per parsed track, in @tonejs/midi's order, the MIDI channel its events were
+ * sent on; null for a track with none. Expects a file that passed
+ * inspectMidiBytes, so every chunk is complete.
+ */
+export function trackChannels(data: ArrayBuffer): (number | null)[] {
+  const view = new DataView(data);
+  const format = view.getUint16(8);
+  const tracks: SplitTrack[] = [];
+  let offset = 8 + view.getUint32(4);
+  while (offset + 8 <= data.byteLength) {
+    const type = String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+    const length = view.getUint32(offset + 4);
+    const start = offset + 8;
+    if (type === 'MTrk') splitChunk(view, start, Math.min(start + length, data.byteLength), tracks);
+    offset = start + length;
+  }
+  // A format 1 file's first track is dropped when it has no notes (the conductor track)
+  if (format === 1 && tracks.length > 0 && !tracks[0].hasNotes) tracks.shift();
+  return tracks.map(t => t.channel);
+}
+
+/** One pedal stream out of several tracks' controller events, e.g. all the tracks on one MIDI channel. */
+export function mergeControlChanges(
+  lists: Record<number, ControlChangeEvent[] | undefined>[]
+): Record<number, ControlChangeEvent[]> {
+  const merged: Record<number, ControlChangeEvent[]> = {};
+  for (const cc of [CC_SUSTAIN, CC_SOSTENUTO, CC_SOFT]) merged[cc] = lists.flatMap(list => list[cc] ?? []);
+  return merged;
+}
+
+export function extractPedals(
+  controlChanges: Record<number, ControlChangeEvent[] | undefined>,
+  endTicks: number
+): Pedals {
+  return {
+    sustain: toSpans(controlChanges[CC_SUSTAIN], endTicks),
+    sostenuto: toSpans(controlChanges[CC_SOSTENUTO], endTicks),
+    soft: toSpans(controlChanges[CC_SOFT], endTicks),
+  };
+}
+
+/** The span containing `ticks`, if any (spans are sorted & non-overlapping). */
+export function spanAt(spans: PedalSpan[], ticks: number): PedalSpan | null {
+  let lo = 0;
+  let hi = spans.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const span = spans[mid];
+    if (ticks < span.startTicks) hi = mid - 1;
+    else if (ticks >= span.endTicks) lo = mid + 1;
+    else return span;
+  }
+  return null;
+}
+
+/**
+ * Applies one channel's pedals to that channel's notes, in place:
+ * - sustain holds a note released under the pedal until the pedal lifts;
+ * - sostenuto holds notes already sounding when it goes down until it lifts;
+ * - soft marks notes struck under it so they're played quieter.
+ * A pedal-held note is still cut when the same key is struck again.
+ */
+export function applyPedals(channelNotes: NoteData[], pedals: Pedals) {
+  const nextStrike = new Map<number, number>(); // midi -> ticks of the following note
+  const byTimeDesc = [...channelNotes].sort((a, b) => b.ticks - a.ticks);
+
+  for (const note of byTimeDesc) {
+    const writtenEnd = note.ticks + note.durationTicks;
+    let end = writtenEnd;
+
+    const sustain = spanAt(pedals.sustain, writtenEnd);
+    if (sustain) end = Math.max(end, sustain.endTicks);
+
+    for (const span of pedals.sostenuto) {
+      if (span.startTicks >= writtenEnd) break;
+      if (span.startTicks >= note.ticks) end = Math.max(end, span.endTicks);
+    }
+
+    const restrike = nextStrike.get(note.midi);
+    if (restrike !== undefined && restrike < end) end = Math.max(writtenEnd, restrike);
+    nextStrike.set(note.midi, note.ticks);
+
+    note.sustainTicks = end - note.ticks;
+    note.soft = spanAt(pedals.soft, note.ticks) !== null;
+  }
+}
+
+/** Union of several tracks' spans for one pedal, for display. */
+export function mergeSpans(spanLists: PedalSpan[][]): PedalSpan[] {
+  const all = spanLists.flat().sort((a, b) => a.startTicks - b.startTicks);
+  const merged: PedalSpan[] = [];
+  for (const span of all) {
+    const last = merged[merged.length - 1];
+    if (last && span.startTicks <= last.endTicks) {
+      last.endTicks = Math.max(last.endTicks, span.endTicks);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,73 @@
+import type { LoopRegion } from './loop';
+import { MAX_TRANSPOSE } from './transpose';
+
+// --- Player session <-> URL query, so a player view can be bookmarked and shared ---
+
+export const MIN_SPEED = 0.2;
+export const MAX_SPEED = 2.0;
+
+/** What a player URL can pin down; anything missing falls back to the song's saved settings. */
+export interface PlayerUrlState {
+  position?: number;   // Song seconds
+  speed?: number;
+  loop?: LoopRegion;   // In ticks; present = looping
+  transpose?: number;  // Semitones
+  hidden?: number[];   // Track indexes
+}
+
+// ?t=42.5&speed=0.75&loop=1920-7680&transpose=-2&hide=1,3
+const PARAM_POSITION = 't';
+const PARAM_SPEED = 'speed';
+const PARAM_LOOP = 'loop';
+const PARAM_TRANSPOSE = 'transpose';
+const PARAM_HIDDEN = 'hide';
+
+function readNumber(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** Reads the player state from a query string, dropping values that are malformed or out of range. */
+export function parsePlayerQuery(params: URLSearchParams): PlayerUrlState {
+  const state: PlayerUrlState = {};
+
+  const position = readNumber(params, PARAM_POSITION);
+  if (position !== undefined && position >= 0) state.position = position;
+
+  const speed = readNumber(params, PARAM_SPEED);
+  if (speed !== undefined && speed >= MIN_SPEED && speed <= MAX_SPEED) state.speed = speed;
+
+  const loop = params.get(PARAM_LOOP)?.match(/^(\d+)-(\d+)$/);
+  if (loop && Number(loop[2]) > Number(loop[1])) {
+    state.loop = { startTicks: Number(loop[1]), endTicks: Number(loop[2]) };
+  }
+
+  const transpose = readNumber(params, PARAM_TRANSPOSE);
+  if (transpose !== undefined && Number.isInteger(transpose) && Math.abs(transpose) <= MAX_TRANSPOSE) {
+    state.transpose = transpose;
+  }
+
+  const hidden = params.get(PARAM_HIDDEN);
+  if (hidden) {
+    state.hidden = hidden.split(',').map(Number).filter(i => Number.isInteger(i) && i >= 0);
+  }
+
+  return state;
+}
+
+/** The query string for a player state; defaults (start, normal speed, no shift…) are left out. */
+export function buildPlayerQuery(state: PlayerUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.position) params.set(PARAM_POSITION, String(Math.round(state.position * 10) / 10));
+  if (state.speed !== undefined && state.speed !== 1) params.set(PARAM_SPEED, String(state.speed));
+  if (state.loop) params.set(PARAM_LOOP, `${Math.round(state.loop.startTicks)}-${Math.round(state.loop.endTicks)}`);
+  if (state.transpose) params.set(PARAM_TRANSPOSE, String(state.transpose));
+  if (state.hidden && state.hidden.length > 0) params.set(PARAM_HIDDEN, state.hidden.join(','));
+  return params;
+}
+
+export function playerPath(songId: string): string {
+  return `/player/${encodeURIComponent(songId)}`;
+}
@@ -0,0 +1,53 @@
+import type { NoteData } from './types';
+
+// --- "Wait for me" practice helpers ---
+
+export interface Chord {
+  ticks: number;
+  pitches: number[];
+}
+
+// Notes starting within this fraction of a beat are treated as one chord,
+// so slightly rolled or humanised chords still form a single wait point.
+const CHORD_WINDOW_BEATS = 1 / 16;
+
+/**
+ * Groups tick-sorted notes into the chords the player has to hit in wait mode.
+ */
+export function buildChords(notes: NoteData[], ppq: number): Chord[] {
+  const windowTicks = Math.max(1, Math.round(ppq * CHORD_WINDOW_BEATS));
+  const chords: Chord[] = [];
+  let current: Chord | null = null;
+
+  for (const note of notes) {
+    if (current && note.ticks - current.ticks <= windowTicks) {
+      if (!current.pitches.includes(note.midi)) current.pitches.push(note.midi);
+      continue;
+    }
+    current = { ticks: note.ticks, pitches: [note.midi] };
+    chords.push(current);
+  }
+  return chords;
+}
+
+/**
+ * Index of the first chord at or after `ticks` (binary search).
+ */
+export function findChordIndex(chords: Chord[], ticks: number): number {
+  let lo = 0;
+  let hi = chords.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (chords[mid].ticks < ticks) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * A chord counts as played once every pitch has been struck since the
+ * previous chord was cleared, so pressing slightly early is fine.
+ */
+export function isChordSatisfied(chord: Chord, struck: Set<number>): boolean {
+  return chord.pitches.every(p => struck.has(p));
+}
@@ -0,0 +1,161 @@
+import type { LoopRegion } from './loop';
+import type { PlayerUrlState } from './playerUrl';
+
+// --- Practice history: what each sitting with a song did, for the library dashboard ---
+
+export interface LoopDrill {
+  startTicks: number;
+  endTicks: number;
+  repetitions: number;
+}
+
+export interface PracticeSession {
+  id: string;
+  songId: string;
+  startedAt: number;      // ms since epoch
+  updatedAt: number;
+  seconds: number;        // Time spent playing, not just with the song open
+  topSpeed: number;       // Fastest playback speed played at (1 = as written); 0 before playing
+  loops: LoopDrill[];     // Loop sections repeated, in the order first drilled
+  accuracies: number[];   // Scored runs, 0..1, in order
+  resume: PlayerUrlState; // Where the session left off: position, speed, loop, transpose, hidden tracks
+}
+
+// A session in progress; playing time is counted from `playingSince` until the next pause
+export interface PracticeTracker {
+  session: PracticeSession;
+  playingSince: number | null;
+}
+
+export interface SongProgress {
+  songId: string;
+  sessions: PracticeSession[]; // Oldest first
+  seconds: number;
+  topSpeed: number;
+  bestAccuracy: number | null;
+  lastPracticedAt: number;
+}
+
+export interface PracticeDay {
+  day: string;            // Local date, YYYY-MM-DD
+  seconds: number;
+}
+
+// Opening a song to look at it isn't practice
+export const MIN_PRACTICE_SECONDS = 10;
+
+export function startPractice(id: string, songId: string, now = Date.now()): PracticeTracker {
+  return {
+    session: { id, songId, startedAt: now, updatedAt: now, seconds: 0, topSpeed: 0, loops: [], accuracies: [], resume: {} },
+    playingSince: null,
+  };
+}
+
+export function setPracticePlaying(tracker: PracticeTracker, playing: boolean, now = Date.now()) {
+  if (playing && tracker.playingSince === null) {
+    tracker.playingSince = now;
+  } else if (!playing && tracker.playingSince !== null) {
+    tracker.session.seconds += (now - tracker.playingSince) / 1000;
+    tracker.playingSince = null;
+  }
+}
+
+export function notePracticeSpeed(tracker: PracticeTracker, speed: number) {
+  tracker.session.topSpeed = Math.max(tracker.session.topSpeed, speed);
+}
+
+/** One pass through a loop section. */
+export function notePracticeLoop(tracker: PracticeTracker, region: LoopRegion) {
+  const drill = tracker.session.loops.find(l => l.startTicks === region.startTicks && l.endTicks === region.endTicks);
+  if (drill) drill.repetitions++;
+  else tracker.session.loops.push({ startTicks: region.startTicks, endTicks: region.endTicks, repetitions: 1 });
+}
+
+export function notePracticeScore(tracker: PracticeTracker, accuracy: number) {
+  tracker.session.accuracies.push(accuracy);
+}
+
+/** The session as it stands, ready to store; null until it has been played long enough to count. */
+export function practiceSnapshot(tracker: PracticeTracker, resume: PlayerUrlState, now = Date.now()): PracticeSession | null {
+  const running = tracker.playingSince !== null ? (now - tracker.playingSince) / 1000 : 0;
+  const seconds = tracker.session.seconds + running;
+  if (seconds < MIN_PRACTICE_SECONDS) return null;
+  return { ...tracker.session, loops: tracker.session.loops.map(l => ({ ...l })), seconds, updatedAt: now, resume };
+}
+
+// --- Dashboard figures ---
+
+export function dayKey(ms: number): string {
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Local midnight `offset` days from `ms`; setDate keeps DST days 23 or 25 hours long
+function dayStart(ms: number, offset = 0): number {
+  const date = new Date(ms);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offset);
+  return date.getTime();
+}
+
+/** Practice time per day over the last `days` days, oldest first, today included. */
+export function practiceByDay(sessions: PracticeSession[], days: number, now = Date.now()): PracticeDay[] {
+  const totals = new Map<string, number>();
+  sessions.forEach(s => {
+    const day = dayKey(s.startedAt);
+    totals.set(day, (totals.get(day) ?? 0) + s.seconds);
+  });
+  return Array.from({ length: days }, (_, i) => {
+    const day = dayKey(dayStart(now, i - days + 1));
+    return { day, seconds: totals.get(day) ?? 0 };
+  });
+}
+
+/**
+ * Days in a row with practice: the current run (still alive if today hasn't
+ * been practiced yet but yesterday was) and the longest ever.
+ */
+export function practiceStreak(sessions: PracticeSession[], now = Date.now()): { current: number; best: number } {
+  const days = new Set(sessions.map(s => dayKey(s.startedAt)));
+  if (days.size === 0) return { current: 0, best: 0 };
+
+  let current = 0;
+  let offset = days.has(dayKey(now)) ? 0 : -1;
+  while (days.has(dayKey(dayStart(now, offset)))) {
+    current++;
+    offset--;
+  }
+
+  let best = 0;
+  for (const day of days) {
+    const start = new Date(`${day}T00:00:00`).getTime();
+    if (days.has(dayKey(dayStart(start, -1)))) continue; // Not the first day of its run
+    let length = 1;
+    while (days.has(dayKey(dayStart(start, length)))) length++;
+    best = Math.max(best, length);
+  }
+  return { current, best };
+}
+
+/** Each practiced song's sessions & bests, most recently practiced first. */
+export function songProgress(sessions: PracticeSession[]): SongProgress[] {
+  const bySong = new Map<string, PracticeSession[]>();
+  sessions.forEach(s => bySong.set(s.songId, [...(bySong.get(s.songId) ?? []), s]));
+  return [...bySong].map(([songId, list]) => {
+    const sorted = [...list].sort((a, b) => a.startedAt - b.startedAt);
+    const accuracies = sorted.flatMap(s => s.accuracies);
+    return {
+      songId,
+      sessions: sorted,
+      seconds: sorted.reduce((sum, s) => sum + s.seconds, 0),
+      topSpeed: Math.max(...sorted.map(s => s.topSpeed)),
+      bestAccuracy: accuracies.length > 0 ? Math.max(...accuracies) : null,
+      lastPracticedAt: Math.max(...sorted.map(s => s.updatedAt)),
+    };
+  }).sort((a, b) => b.lastPracticedAt - a.lastPracticedAt);
+}
+
+/** The session to pick up from: the one touched last. */
+export function latestSession(sessions: PracticeSession[]): PracticeSession | null {
+  return sessions.reduce<PracticeSession | null>((latest, s) => (!latest || s.updatedAt > latest.updatedAt ? s : latest), null);
+}
@@ -0,0 +1,93 @@
+// --- Play queue: what the player moves on to, with shuffle & repeat ---
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const REPEAT_MODES: { value: RepeatMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'all', label: 'Whole queue' },
+  { value: 'one', label: 'This song' },
+];
+
+export interface PlayQueue {
+  songIds: string[];
+  order: number[];        // Indexes into songIds, in play order (shuffled or not)
+  shuffle: boolean;
+  repeat: RepeatMode;
+  source: string | null;  // Playlist name, or null for the library
+}
+
+export const EMPTY_QUEUE: PlayQueue = { songIds: [], order: [], shuffle: false, repeat: 'off', source: null };
+
+const STORAGE_KEY_QUEUE = 'play_queue';
+
+// Fisher–Yates, with `first` (if given) kept at the front so the current song stays current
+function playOrder(count: number, shuffle: boolean, first = -1): number[] {
+  const order = Array.from({ length: count }, (_, i) => i);
+  if (!shuffle) return order;
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const at = order.indexOf(first);
+  if (at > 0) [order[0], order[at]] = [order[at], order[0]];
+  return order;
+}
+
+/** A queue of `songIds` starting at `startId`, keeping the shuffle & repeat modes of `previous`. */
+export function createQueue(songIds: string[], startId: string | null, source: string | null, previous: PlayQueue = EMPTY_QUEUE): PlayQueue {
+  return {
+    songIds,
+    order: playOrder(songIds.length, previous.shuffle, startId ? songIds.indexOf(startId) : -1),
+    shuffle: previous.shuffle,
+    repeat: previous.repeat,
+    source,
+  };
+}
+
+/** Reshuffles (or restores file order) with `currentId` first in line. */
+export function setShuffle(queue: PlayQueue, shuffle: boolean, currentId: string | null): PlayQueue {
+  return { ...queue, shuffle, order: playOrder(queue.songIds.length, shuffle, currentId ? queue.songIds.indexOf(currentId) : -1) };
+}
+
+/** The queue without `songId` (a deleted song), the rest keeping their play order. */
+export function withoutSong(queue: PlayQueue, songId: string): PlayQueue {
+  const removed = queue.songIds.indexOf(songId);
+  if (removed === -1) return queue;
+  return {
+    ...queue,
+    songIds: queue.songIds.filter((_, i) => i !== removed),
+    order: queue.order.filter(i => i !== removed).map(i => (i > removed ? i - 1 : i)),
+  };
+}
+
+/** The song ids in play order. */
+export function queuedSongs(queue: PlayQueue): string[] {
+  return queue.order.map(i => queue.songIds[i]);
+}
+
+/**
+ * The song to go to from `currentId`, a step forwards (1) or back (-1).
+ * At the end of a song (`finished`) "repeat one" plays it again; at either
+ * end of the queue "repeat all" wraps around. Null when there's nowhere to go.
+ */
+export function queuedAfter(queue: PlayQueue, currentId: string, step: 1 | -1, finished = false): string | null {
+  if (finished && queue.repeat === 'one') return currentId;
+  const played = queuedSongs(queue);
+  const at = played.indexOf(currentId);
+  if (at === -1) return null;
+  const next = at + step;
+  if (next >= 0 && next < played.length) return played[next];
+  return queue.repeat === 'all' ? played[(next + played.length) % played.length] : null;
+}
+
+export function loadQueue(): PlayQueue {
+  try {
+    return { ...EMPTY_QUEUE, ...JSON.parse(localStorage.getItem(STORAGE_KEY_QUEUE) || '{}') };
+  } catch {
+    return EMPTY_QUEUE;
+  }
+}
+
+export function saveQueue(queue: PlayQueue) {
+  localStorage.setItem(STORAGE_KEY_QUEUE, JSON.stringify(queue));
+}
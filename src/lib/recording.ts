@@ -0,0 +1,109 @@
+import { Midi } from '@tonejs/midi';
+import type { NoteData } from './types';
+import { ticksToSeconds, type TempoMap } from './tempoMap';
+import { midiToNoteName } from './noteNames';
+
+// --- Performance recording (takes) ---
+
+export interface RecordedNote {
+  midi: number;
+  velocity: number;        // 0..1
+  ticks: number;           // Transport ticks, i.e. song position
+  durationTicks: number;
+}
+
+export interface Take {
+  id: string;
+  songId: string;
+  name: string;
+  createdAt: number;       // ms since epoch
+  ppq: number;             // The song's PPQ, so ticks line up on export
+  withSong: boolean;       // Recorded over the backing song, or on its own
+  notes: RecordedNote[];   // Sorted by ticks
+}
+
+// A take in progress: notes still held down are kept apart until released
+export interface Recording {
+  take: Take;
+  held: Map<number, RecordedNote>;
+}
+
+// The waterfall & scheduler treat a take as one extra pseudo-track
+export const TAKE_TRACK_INDEX = -1;
+export const TAKE_COLOR = '#f43f5e';
+
+// A tap shorter than this still gets a visible, audible note
+const MIN_DURATION_TICKS = 1;
+
+export function startRecording(take: Omit<Take, 'notes'>): Recording {
+  return { take: { ...take, notes: [] }, held: new Map() };
+}
+
+export function recordNoteOn(recording: Recording, midi: number, velocity: number, ticks: number) {
+  // A re-strike without a note-off closes the previous note first
+  recordNoteOff(recording, midi, ticks);
+  const note: RecordedNote = { midi, velocity, ticks: Math.round(ticks), durationTicks: 0 };
+  recording.held.set(midi, note);
+  recording.take.notes.push(note);
+}
+
+export function recordNoteOff(recording: Recording, midi: number, ticks: number) {
+  const note = recording.held.get(midi);
+  if (!note) return;
+  recording.held.delete(midi);
+  // Loop wraps can put the release "before" the strike; keep the note short instead
+  note.durationTicks = Math.max(MIN_DURATION_TICKS, Math.round(ticks) - note.ticks);
+}
+
+/** Releases anything still held and returns the finished take. */
+export function stopRecording(recording: Recording, ticks: number): Take {
+  for (const midi of [...recording.held.keys()]) recordNoteOff(recording, midi, ticks);
+  const notes = [...recording.take.notes].sort((a, b) => a.ticks - b.ticks);
+  return { ...recording.take, notes };
+}
+
+/** A take as playable notes, on the pseudo-track TAKE_TRACK_INDEX. */
+export function takeToNotes(take: Take, tempoMap: TempoMap): NoteData[] {
+  return take.notes.map((note) => {
+    const time = ticksToSeconds(tempoMap, note.ticks);
+    return {
+      midi: note.midi,
+      name: midiToNoteName(note.midi),
+      time,
+      ticks: note.ticks,
+      duration: ticksToSeconds(tempoMap, note.ticks + note.durationTicks) - time,
+      durationTicks: note.durationTicks,
+      velocity: note.velocity,
+      trackIndex: TAKE_TRACK_INDEX,
+      sustainTicks: note.durationTicks,
+      soft: false,
+      folded: false,
+    };
+  });
+}
+
+/**
+ * Writes a take as a Standard MIDI File with the song's PPQ, tempo changes and
+ * time signatures, so it lines up with the original when opened elsewhere.
+ */
+export function takeToMidi(take: Take, tempoMap: TempoMap, title: string): Blob {
+  const midi = new Midi();
+  midi.header.fromJSON({
+    ...midi.header.toJSON(),
+    name: title,
+    ppq: take.ppq,
+    tempos: tempoMap.tempos.map(({ ticks, bpm }) => ({ ticks, bpm })),
+    timeSignatures: tempoMap.meters.map(({ ticks, numerator, denominator }) => ({
+      ticks,
+      timeSignature: [numerator, denominator],
+    })),
+  });
+  midi.header.update();
+
+  const track = midi.addTrack();
+  track.name = take.name;
+  take.notes.forEach((note) => {
+    track.addNote({ midi: note.midi, ticks: note.ticks, durationTicks: note.durationTicks, velocity: note.velocity });
+  });
+  return new Blob([new Uint8Array(midi.toArray())], { type: 'audio/midi' });
+}
@@ -0,0 +1,59 @@
+import * as Tone from 'tone';
+import type { Instrument } from './instruments';
+import type { NoteData } from './types';
+import type { TempoMap } from './tempoMap';
+import { SOFT_PEDAL_VELOCITY } from './pedals';
+import { applyVelocityCurve, type VelocityCurve } from './dynamics';
+
+// --- Song scheduling, shared by live playback and offline export ---
+
+export type Transport = ReturnType<typeof Tone.getTransport>;
+
+export interface ScheduleOptions {
+  transport: Transport;
+  notes: NoteData[];
+  tempoMap: TempoMap;
+  getSpeed: () => number;                                   // Read when each callback fires
+  getInstrument: (trackIndex: number) => Instrument | undefined;
+  isSilenced?: (note: NoteData) => boolean;                 // e.g. wait mode, or a hand the student plays
+  getVelocityCurve?: () => VelocityCurve;                   // Read when each note plays; as written if unset
+}
+
+/**
+ * Puts a whole song on a Transport: BPM automation for every tempo change
+ * (scaled by playback speed) and one callback per note. Durations are in
+ * ticks so they follow playback speed; pedals are already folded into
+ * `sustainTicks`. Clears whatever was scheduled before.
+ */
+export function scheduleSong({ transport, notes, tempoMap, getSpeed, getInstrument, isSilenced, getVelocityCurve }: ScheduleOptions) {
+  transport.cancel();
+  transport.PPQ = tempoMap.ppq;
+
+  tempoMap.tempos.slice(1).forEach((tempo) => {
+    transport.schedule((time) => {
+      transport.bpm.setValueAtTime(tempo.bpm * getSpeed(), time);
+    }, tempo.ticks + 'i');
+  });
+
+  scheduleNotes({ transport, notes, getInstrument, isSilenced, getVelocityCurve });
+}
+
+/**
+ * One callback per note, added to whatever is already scheduled. Returns the
+ * event ids so an overlay (e.g. a recorded take) can later be cleared on its own.
+ */
+export function scheduleNotes({
+  transport,
+  notes,
+  getInstrument,
+  isSilenced,
+  getVelocityCurve,
+}: Pick<ScheduleOptions, 'transport' | 'notes' | 'getInstrument' | 'isSilenced' | 'getVelocityCurve'>): number[] {
+  return notes.map((note) => transport.schedule((time) => {
+    if (isSilenced?.(note)) return;
+    // The soft pedal still softens whatever the curve makes of the note
+    const curved = applyVelocityCurve(note.velocity, getVelocityCurve?.() ?? 'natural');
+    const velocity = note.soft ? curved * SOFT_PEDAL_VELOCITY : curved;
+    getInstrument(note.trackIndex)?.triggerAttackRelease(note.name, note.sustainTicks + 'i', time, velocity);
+  }, note.ticks + 'i'));
+}
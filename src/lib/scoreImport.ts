@@ -0,0 +1,65 @@
+import { importAbc } from './abc';
+import { importMusicXml } from './musicXml';
+import { unsupportedScore, type ImportedScore } from './importedScore';
+import { ZipError, readZipEntries, readZipEntry } from './zip';
+
+// --- Which kind of song file this is, and the importers for the ones that aren't MIDI ---
+
+export type SongFormat = 'midi' | 'musicxml' | 'mxl' | 'abc';
+
+export type ScoreFormat = Exclude<SongFormat, 'midi'>;
+
+// For file pickers
+export const SONG_FILE_ACCEPT = '.mid,.midi,.musicxml,.xml,.mxl,.abc';
+
+const SNIFF_BYTES = 4096;
+
+/** Text from a file's bytes: UTF-16 when it starts with a byte order mark (MusicXML may be), else UTF-8. */
+export function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Tells the formats apart by content, not file name: a MIDI header, a zip
+ * archive (compressed MusicXML), an XML document, or ABC header fields.
+ * Null for anything else, which is then reported as not being MIDI.
+ */
+export function detectSongFormat(data: ArrayBuffer): SongFormat | null {
+  const head = new Uint8Array(data, 0, Math.min(data.byteLength, SNIFF_BYTES));
+  const magic = String.fromCharCode(...head.subarray(0, 4));
+  if (magic === 'MThd') return 'midi';
+  if (magic === 'PK\x03\x04') return 'mxl';
+
+  const text = decodeText(head).replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('<')) return 'musicxml';
+  if (/^(X|K):/m.test(text)) return 'abc';
+  return null;
+}
+
+// A .mxl holds the score plus META-INF/container.xml, which names it
+async function readMxl(data: ArrayBuffer): Promise<string> {
+  try {
+    const entries = readZipEntries(data);
+    const container = entries.find(e => e.name === 'META-INF/container.xml');
+    let scorePath: string | undefined;
+    if (container) {
+      scorePath = decodeText(await readZipEntry(data, container)).match(/<rootfile\b[^>]*\bfull-path\s*=\s*["']([^"']+)["']/)?.[1];
+    }
+    const scoreEntry = entries.find(e => e.name === scorePath)
+      ?? entries.find(e => !e.name.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(e.name));
+    if (!scoreEntry) throw new ZipError('There is no MusicXML score inside.');
+    return decodeText(await readZipEntry(data, scoreEntry));
+  } catch (e) {
+    if (e instanceof ZipError) throw unsupportedScore(`The compressed MusicXML (.mxl) couldn't be opened: ${e.message}`, 'score-unreadable');
+    throw e;
+  }
+}
+
+/** Turns a MusicXML, .mxl or ABC file into the player's song model. Throws a MidiFileError when it can't. */
+export async function importScore(data: ArrayBuffer, format: ScoreFormat): Promise<ImportedScore> {
+  if (format === 'mxl') return importMusicXml(await readMxl(data));
+  const text = decodeText(new Uint8Array(data));
+  return format === 'abc' ? importAbc(text) : importMusicXml(text);
+}
@@ -0,0 +1,193 @@
+import type { NoteData } from './types';
+import { barBeatToTicks, tempoAt, ticksToBarBeat, ticksToSeconds, type TempoMap } from './tempoMap';
+
+// --- Performance scoring against the loaded song ---
+
+export interface ScoringWindows {
+  perfectMs: number;  // Counts as on time
+  hitMs: number;      // Furthest a played note may be from its target and still match it
+}
+
+export const DEFAULT_SCORING_WINDOWS: ScoringWindows = { perfectMs: 50, hitMs: 150 };
+
+export interface NoteHit {
+  deviationMs: number;      // Negative = early, in real (playback-speed) time
+  velocityError: number;    // Played minus written, 0..1 scale
+}
+
+// One scored run, from wherever the playhead was when it started
+export interface ScoringSession {
+  windows: ScoringWindows;
+  tempoMap: TempoMap;
+  speed: number;              // Playback speed at the start, to turn ticks into real ms
+  startTicks: number;
+  expected: NoteData[];       // Tick-sorted notes the player is meant to play
+  hits: Map<NoteData, NoteHit>;
+  extras: number[];           // Ticks of notes that matched nothing
+}
+
+export interface MeasureScore {
+  bar: number;              // 1-based
+  startTicks: number;
+  endTicks: number;
+  expected: number;
+  hits: number;
+  extras: number;
+  accuracy: number;         // 0..1
+}
+
+export interface ScoreReport {
+  expected: number;
+  hits: number;
+  perfect: number;
+  early: number;            // Hits outside the perfect window, early
+  late: number;
+  misses: number;
+  extras: number;
+  accuracy: number;         // hits / (expected + extras), 0..1
+  meanDeviationMs: number;  // Signed: negative means rushing
+  meanAbsDeviationMs: number;
+  velocityAccuracy: number; // 1 - mean |velocity error|, 0..1
+  measures: MeasureScore[];
+}
+
+export function startScoring(
+  notes: NoteData[],
+  tempoMap: TempoMap,
+  startTicks: number,
+  speed: number,
+  windows: ScoringWindows
+): ScoringSession {
+  return {
+    windows,
+    tempoMap,
+    speed,
+    startTicks,
+    // Anything already sounding when the run starts can't be played in time
+    expected: notes.filter(n => n.ticks >= startTicks),
+    hits: new Map(),
+    extras: [],
+  };
+}
+
+function deviationMs(session: ScoringSession, playedTicks: number, targetTicks: number): number {
+  const seconds = ticksToSeconds(session.tempoMap, playedTicks) - ticksToSeconds(session.tempoMap, targetTicks);
+  return (seconds / session.speed) * 1000;
+}
+
+// First expected note at or after `ticks` (binary search)
+function lowerBound(notes: NoteData[], ticks: number): number {
+  let lo = 0;
+  let hi = notes.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (notes[mid].ticks < ticks) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Matches one played note to the closest unmatched expected note of the same
+ * pitch inside the hit window; otherwise it counts as an extra note.
+ * Returns the hit, or null for an extra.
+ */
+export function scorePlayedNote(session: ScoringSession, midi: number, velocity: number, ticks: number): NoteHit | null {
+  const { expected, hits, windows, tempoMap, speed } = session;
+  // The window in ticks at the current tempo, generously rounded up
+  const windowTicks = Math.ceil((windows.hitMs / 1000) * speed * (tempoAt(tempoMap, ticks) / 60) * tempoMap.ppq) + 1;
+
+  let best: NoteData | null = null;
+  let bestDistance = Infinity;
+  for (let i = lowerBound(expected, ticks - windowTicks); i < expected.length; i++) {
+    const note = expected[i];
+    if (note.ticks > ticks + windowTicks) break;
+    if (note.midi !== midi || hits.has(note)) continue;
+    const distance = Math.abs(deviationMs(session, ticks, note.ticks));
+    if (distance <= windows.hitMs && distance < bestDistance) {
+      best = note;
+      bestDistance = distance;
+    }
+  }
+
+  if (!best) {
+    session.extras.push(ticks);
+    return null;
+  }
+  const hit = { deviationMs: deviationMs(session, ticks, best.ticks), velocityError: velocity - best.velocity };
+  hits.set(best, hit);
+  return hit;
+}
+
+/**
+ * Summarises a run that reached `endTicks`. Notes after that point weren't
+ * reached and don't count as misses.
+ */
+export function buildScoreReport(session: ScoringSession, endTicks: number): ScoreReport {
+  const { tempoMap, windows } = session;
+  const expected = session.expected.filter(n => n.ticks <= endTicks);
+  const extras = session.extras.filter(t => t <= endTicks);
+
+  const firstBar = ticksToBarBeat(tempoMap, session.startTicks).bar;
+  const lastBar = ticksToBarBeat(tempoMap, Math.max(session.startTicks, endTicks)).bar;
+  const measures: MeasureScore[] = [];
+  for (let bar = firstBar; bar <= lastBar; bar++) {
+    measures.push({
+      bar,
+      startTicks: barBeatToTicks(tempoMap, bar),
+      endTicks: barBeatToTicks(tempoMap, bar + 1),
+      expected: 0,
+      hits: 0,
+      extras: 0,
+      accuracy: 1,
+    });
+  }
+  const measureAt = (ticks: number) => measures[ticksToBarBeat(tempoMap, ticks).bar - firstBar];
+
+  let hits = 0;
+  let perfect = 0;
+  let early = 0;
+  let late = 0;
+  let deviationSum = 0;
+  let absDeviationSum = 0;
+  let velocityErrorSum = 0;
+
+  for (const note of expected) {
+    const measure = measureAt(note.ticks);
+    if (measure) measure.expected++;
+    const hit = session.hits.get(note);
+    if (!hit) continue;
+    hits++;
+    if (measure) measure.hits++;
+    deviationSum += hit.deviationMs;
+    absDeviationSum += Math.abs(hit.deviationMs);
+    velocityErrorSum += Math.abs(hit.velocityError);
+    if (Math.abs(hit.deviationMs) <= windows.perfectMs) perfect++;
+    else if (hit.deviationMs < 0) early++;
+    else late++;
+  }
+  for (const ticks of extras) {
+    const measure = measureAt(ticks);
+    if (measure) measure.extras++;
+  }
+  for (const measure of measures) {
+    const attempts = measure.expected + measure.extras;
+    measure.accuracy = attempts > 0 ? measure.hits / attempts : 1;
+  }
+
+  const attempts = expected.length + extras.length;
+  return {
+    expected: expected.length,
+    hits,
+    perfect,
+    early,
+    late,
+    misses: expected.length - hits,
+    extras: extras.length,
+    accuracy: attempts > 0 ? hits / attempts : 0,
+    meanDeviationMs: hits > 0 ? deviationSum / hits : 0,
+    meanAbsDeviationMs: hits > 0 ? absDeviationSum / hits : 0,
+    velocityAccuracy: hits > 0 ? 1 - velocityErrorSum / hits : 0,
+    measures,
+  };
+}
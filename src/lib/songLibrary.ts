@@ -0,0 +1,341 @@
+import { clearSongSettings } from './songSettings';
+import { loadQueue, saveQueue, withoutSong } from './queue';
+import { loadSong } from './songLoader';
+import { MidiFileError } from './midiDiagnostics';
+import { ticksToSeconds } from './tempoMap';
+import type { Take } from './recording';
+import type { PracticeSession } from './practiceHistory';
+
+// --- Song library, stored as binary in IndexedDB ---
+
+export interface SongRecord {
+  id: string;
+  title: string;
+  fileName: string;
+  duration: number;      // Seconds
+  trackCount: number;    // Tracks that contain notes
+  noteCount: number;
+  noteRange: { min: number; max: number } | null;
+  addedAt: number;       // ms since epoch
+  lastOpenedAt: number | null;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  songIds: string[];     // In play order
+  createdAt: number;
+}
+
+const DB_NAME = 'midi-keys';
+const DB_VERSION = 4;
+const SONGS_STORE = 'songs';      // SongRecord metadata (cheap to list)
+const DATA_STORE = 'songData';    // id -> ArrayBuffer (only read when opening)
+const TAKES_STORE = 'takes';      // Recorded performances, indexed by song
+const TAKES_BY_SONG = 'songId';
+const PLAYLISTS_STORE = 'playlists';
+const PRACTICE_STORE = 'practice'; // Practice sessions, indexed by song
+const PRACTICE_BY_SONG = 'songId';
+
+// Legacy single-slot storage used before the library existed
+const LEGACY_KEY_DATA = 'midi_data_b64';
+const LEGACY_KEY_NAME = 'midi_name';
+
+// --- IndexedDB plumbing ---
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("This browser does not support IndexedDB."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SONGS_STORE)) db.createObjectStore(SONGS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+      if (!db.objectStoreNames.contains(TAKES_STORE)) {
+        db.createObjectStore(TAKES_STORE, { keyPath: 'id' }).createIndex(TAKES_BY_SONG, 'songId');
+      }
+      if (!db.objectStoreNames.contains(PLAYLISTS_STORE)) db.createObjectStore(PLAYLISTS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(PRACTICE_STORE)) {
+        db.createObjectStore(PRACTICE_STORE, { keyPath: 'id' }).createIndex(PRACTICE_BY_SONG, 'songId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens the database once per session and folds in the legacy slot on first use
+function getDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDb().then(async (db) => {
+      await migrateLegacyStorage(db);
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// --- Helpers ---
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export function createId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.(midi?|musicxml|xml|mxl|abc)$/i, '');
+}
+
+/** A long stretch of time (a playlist, time practiced) in whole minutes, with hours past the first. */
+export function formatMinutes(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  return mins < 60 ? `${mins} min` : `${Math.floor(mins / 60)} h ${mins % 60} min`;
+}
+
+/**
+ * Reads the library metadata out of a song file, parsing it in the worker the
+ * player uses. Rejects with a MidiFileError (the same diagnostics the player
+ * would show) if it can't be played, so broken files never make it into the library.
+ */
+async function describeSong(data: ArrayBuffer) {
+  // The worker takes ownership of what it's sent; `data` is still to be stored
+  const song = await loadSong(data.slice(0));
+  let min = Infinity;
+  let max = -Infinity;
+  for (const note of song.notes) {
+    if (note.midi < min) min = note.midi;
+    if (note.midi > max) max = note.midi;
+  }
+
+  return {
+    duration: ticksToSeconds(song.tempoMap, song.songTicks),
+    trackCount: song.tracks.length,
+    noteCount: song.notes.length,
+    noteRange: song.notes.length > 0 ? { min, max } : null,
+  };
+}
+
+async function putSong(db: IDBDatabase, record: SongRecord, data: ArrayBuffer) {
+  const tx = db.transaction([SONGS_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SONGS_STORE).put(record);
+  tx.objectStore(DATA_STORE).put(data, record.id);
+  await transactionDone(tx);
+}
+
+function removeLegacyStorage() {
+  localStorage.removeItem(LEGACY_KEY_DATA);
+  localStorage.removeItem(LEGACY_KEY_NAME);
+}
+
+async function migrateLegacyStorage(db: IDBDatabase) {
+  const storedData = localStorage.getItem(LEGACY_KEY_DATA);
+  const storedName = localStorage.getItem(LEGACY_KEY_NAME);
+  if (!storedData) return;
+
+  try {
+    const data = base64ToArrayBuffer(storedData);
+    const record: SongRecord = {
+      id: createId(),
+      title: storedName || 'Untitled',
+      fileName: `${storedName || 'untitled'}.mid`,
+      ...(await describeSong(data)),
+      addedAt: Date.now(),
+      lastOpenedAt: Date.now(), // It was the last song played
+    };
+    await putSong(db, record, data);
+    removeLegacyStorage();
+  } catch (e) {
+    console.warn("Could not migrate the previously stored song", e);
+    // A song that can't be played never will be; anything else (storage full, say) is tried again next time
+    if (e instanceof MidiFileError) removeLegacyStorage();
+  }
+}
+
+// --- Public API ---
+export async function addSong(fileName: string, data: ArrayBuffer): Promise<SongRecord> {
+  const record: SongRecord = {
+    id: createId(),
+    title: titleFromFileName(fileName),
+    fileName,
+    ...(await describeSong(data)),
+    addedAt: Date.now(),
+    lastOpenedAt: null,
+  };
+  const db = await getDb();
+  await putSong(db, record, data);
+  return record;
+}
+
+export async function addSongFile(file: File): Promise<SongRecord> {
+  return addSong(file.name, await file.arrayBuffer());
+}
+
+export async function listSongs(): Promise<SongRecord[]> {
+  const db = await getDb();
+  const tx = db.transaction(SONGS_STORE, 'readonly');
+  return promisify(tx.objectStore(SONGS_STORE).getAll() as IDBRequest<SongRecord[]>);
+}
+
+export async function getSong(id: string): Promise<SongRecord | null> {
+  const db = await getDb();
+  const tx = db.transaction(SONGS_STORE, 'readonly');
+  const record = await promisify(tx.objectStore(SONGS_STORE).get(id) as IDBRequest<SongRecord | undefined>);
+  return record ?? null;
+}
+
+export async function getSongData(id: string): Promise<ArrayBuffer | null> {
+  const db = await getDb();
+  const tx = db.transaction(DATA_STORE, 'readonly');
+  const data = await promisify(tx.objectStore(DATA_STORE).get(id) as IDBRequest<ArrayBuffer | undefined>);
+  return data ?? null;
+}
+
+/**
+ * The song opened most recently (or, failing that, added most recently); used
+ * when the player is opened without a selection.
+ */
+export async function getLastOpenedSong(): Promise<SongRecord | null> {
+  const songs = await listSongs();
+  songs.sort((a, b) => (b.lastOpenedAt ?? 0) - (a.lastOpenedAt ?? 0) || b.addedAt - a.addedAt);
+  return songs[0] ?? null;
+}
+
+export async function updateSong(id: string, patch: Partial<Omit<SongRecord, 'id'>>): Promise<SongRecord | null> {
+  const db = await getDb();
+  const tx = db.transaction(SONGS_STORE, 'readwrite');
+  const store = tx.objectStore(SONGS_STORE);
+  const record = await promisify(store.get(id) as IDBRequest<SongRecord | undefined>);
+  if (!record) return null;
+  const next = { ...record, ...patch, id };
+  store.put(next);
+  await transactionDone(tx);
+  return next;
+}
+
+export function renameSong(id: string, title: string) {
+  return updateSong(id, { title: title.trim() || 'Untitled' });
+}
+
+export function markSongOpened(id: string) {
+  return updateSong(id, { lastOpenedAt: Date.now() });
+}
+
+export async function deleteSong(id: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction([SONGS_STORE, DATA_STORE, TAKES_STORE, PLAYLISTS_STORE, PRACTICE_STORE], 'readwrite');
+  tx.objectStore(SONGS_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  const takeKeys = await promisify(tx.objectStore(TAKES_STORE).index(TAKES_BY_SONG).getAllKeys(id));
+  takeKeys.forEach(key => tx.objectStore(TAKES_STORE).delete(key));
+  const practiceKeys = await promisify(tx.objectStore(PRACTICE_STORE).index(PRACTICE_BY_SONG).getAllKeys(id));
+  practiceKeys.forEach(key => tx.objectStore(PRACTICE_STORE).delete(key));
+  // Playlists keep their other songs
+  const playlists = await promisify(tx.objectStore(PLAYLISTS_STORE).getAll() as IDBRequest<Playlist[]>);
+  playlists
+    .filter(playlist => playlist.songIds.includes(id))
+    .forEach(playlist => tx.objectStore(PLAYLISTS_STORE).put({ ...playlist, songIds: playlist.songIds.filter(s => s !== id) }));
+  await transactionDone(tx);
+  clearSongSettings(id);
+  // Out of the play queue too, so skipping & moving on never land on the deleted song
+  saveQueue(withoutSong(loadQueue(), id));
+}
+
+// --- Takes ---
+export async function saveTake(take: Take): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(TAKES_STORE, 'readwrite');
+  tx.objectStore(TAKES_STORE).put(take);
+  await transactionDone(tx);
+}
+
+/** A song's takes, oldest first. */
+export async function listTakes(songId: string): Promise<Take[]> {
+  const db = await getDb();
+  const tx = db.transaction(TAKES_STORE, 'readonly');
+  const takes = await promisify(tx.objectStore(TAKES_STORE).index(TAKES_BY_SONG).getAll(songId) as IDBRequest<Take[]>);
+  return takes.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function deleteTake(id: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(TAKES_STORE, 'readwrite');
+  tx.objectStore(TAKES_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+// --- Playlists ---
+/** All playlists, oldest first. */
+export async function listPlaylists(): Promise<Playlist[]> {
+  const db = await getDb();
+  const tx = db.transaction(PLAYLISTS_STORE, 'readonly');
+  const playlists = await promisify(tx.objectStore(PLAYLISTS_STORE).getAll() as IDBRequest<Playlist[]>);
+  return playlists.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function savePlaylist(playlist: Playlist): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(PLAYLISTS_STORE, 'readwrite');
+  tx.objectStore(PLAYLISTS_STORE).put(playlist);
+  await transactionDone(tx);
+}
+
+export async function createPlaylist(name: string, songIds: string[] = []): Promise<Playlist> {
+  const playlist: Playlist = { id: createId(), name: name.trim() || 'Untitled playlist', songIds, createdAt: Date.now() };
+  await savePlaylist(playlist);
+  return playlist;
+}
+
+export async function deletePlaylist(id: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(PLAYLISTS_STORE, 'readwrite');
+  tx.objectStore(PLAYLISTS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+// --- Practice history ---
+/** Stores a session; saving it again as it goes on replaces the earlier copy. */
+export async function savePracticeSession(session: PracticeSession): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(PRACTICE_STORE, 'readwrite');
+  tx.objectStore(PRACTICE_STORE).put(session);
+  await transactionDone(tx);
+}
+
+/** Every song's practice sessions, oldest first. */
+export async function listPracticeSessions(): Promise<PracticeSession[]> {
+  const db = await getDb();
+  const tx = db.transaction(PRACTICE_STORE, 'readonly');
+  const sessions = await promisify(tx.objectStore(PRACTICE_STORE).getAll() as IDBRequest<PracticeSession[]>);
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+}
@@ -0,0 +1,64 @@
+import { MidiFileError, type MidiDiagnostic } from './midiDiagnostics';
+import { parseSong, type ParsedSong, type ParseProgress, type ParseStage } from './songParser';
+
+// --- Parses songs in a worker, so huge files don't freeze the UI ---
+
+export type SongParserMessage =
+  | { type: 'progress'; stage: ParseStage; fraction: number }
+  | { type: 'done'; song: ParsedSong }
+  | { type: 'failed'; diagnostics: MidiDiagnostic[] };
+
+// Rough share of the total work per stage, for a single progress bar
+const STAGE_SPANS: Record<ParseStage, [number, number]> = {
+  checking: [0, 0.05],
+  parsing: [0.05, 0.6],
+  notes: [0.6, 0.85],
+  arranging: [0.85, 1],
+};
+
+/** Overall 0..1 progress from a stage and how far into it the parser is. */
+export function overallProgress(stage: ParseStage, fraction: number): number {
+  const [from, to] = STAGE_SPANS[stage];
+  return from + (to - from) * fraction;
+}
+
+/**
+ * Parses a song file off the main thread. Rejects with a MidiFileError when
+ * the file can't be played; aborting terminates the worker. Falls back to
+ * parsing inline where workers aren't available.
+ */
+export function loadSong(data: ArrayBuffer, onProgress?: ParseProgress, signal?: AbortSignal): Promise<ParsedSong> {
+  if (typeof Worker === 'undefined') {
+    return parseSong(data, onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./songParser.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException('Song loading was cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (e: MessageEvent<SongParserMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.fraction);
+        return;
+      }
+      finish();
+      if (message.type === 'done') resolve(message.song);
+      else reject(new MidiFileError(message.diagnostics));
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new MidiFileError([{ code: 'parse-failed', severity: 'error', message: `The file couldn't be read: ${e.message}.` }]));
+    };
+    // The library keeps its own copy of the file, so this one can be handed over
+    worker.postMessage(data, [data]);
+  });
+}
@@ -0,0 +1,198 @@
+import { Midi, type Track } from '@tonejs/midi';
+import type { NoteData } from './types';
+import type { TrackInfo } from './trackMixer';
+import { buildTempoMap, ticksToSeconds, type TempoMap } from './tempoMap';
+import { applyPedals, extractPedals, mergeControlChanges, mergeSpans, trackChannels, type Pedals } from './pedals';
+import { buildKeySignatures, type KeySignature } from './noteLabels';
+import { buildSectionMarkers, type SectionMarker } from './markers';
+import { MidiFileError, hasErrors, inspectMidiBytes, inspectNotes, type MidiDiagnostic } from './midiDiagnostics';
+import { midiToNoteName } from './noteNames';
+import { detectSongFormat, importScore } from './scoreImport';
+import type { ImportedScore } from './importedScore';
+
+// --- Song file (MIDI, MusicXML or ABC) -> everything the player needs, in plain (cloneable) data ---
+
+export type ParseStage = 'checking' | 'parsing' | 'notes' | 'arranging';
+
+export type ParseProgress = (stage: ParseStage, fraction: number) => void;
+
+export interface ParsedSong {
+  tempoMap: TempoMap;
+  songTicks: number;          // End of the last note
+  notes: NoteData[];          // All tracks, sorted by ticks, pedals applied
+  pedals: Pedals;             // All tracks merged, for display
+  tracks: TrackInfo[];
+  keySignatures: KeySignature[];
+  markers: SectionMarker[];
+  warnings: MidiDiagnostic[];
+}
+
+export function describeTracks(midi: Midi): TrackInfo[] {
+  return midi.tracks
+    .map((track, index) => ({
+      index,
+      name: track.name || `Track ${index + 1}`,
+      instrument: track.instrument.name || (track.instrument.percussion ? 'drums' : 'piano'),
+      program: track.instrument.number,
+      percussion: track.instrument.percussion,
+      noteCount: track.notes.length,
+    }))
+    // Conductor / meta-only tracks have nothing to mix
+    .filter(t => t.noteCount > 0);
+}
+
+/**
+ * Validates and parses a song file, flattens its tracks into sorted notes with
+ * pedals applied, and collects tempo, key and marker data. Throws a MidiFileError
+ * describing what's wrong when the file can't be played.
+ */
+export async function parseSong(data: ArrayBuffer, onProgress?: ParseProgress): Promise<ParsedSong> {
+  onProgress?.('checking', 0);
+  const format = detectSongFormat(data);
+  if (format && format !== 'midi') {
+    onProgress?.('parsing', 0);
+    return parseScore(await importScore(data, format), onProgress);
+  }
+  return parseMidi(data, onProgress);
+}
+
+function parseMidi(data: ArrayBuffer, onProgress?: ParseProgress): ParsedSong {
+  const structure = inspectMidiBytes(data);
+  if (hasErrors(structure)) throw new MidiFileError(structure);
+
+  onProgress?.('parsing', 0);
+  let midi: Midi;
+  try {
+    midi = new Midi(data);
+  } catch (e) {
+    throw new MidiFileError([{
+      code: 'parse-failed',
+      severity: 'error',
+      message: `The file couldn't be read: ${e instanceof Error ? e.message : String(e)}.`,
+    }]);
+  }
+
+  const ppq = midi.header.ppq || 192; // Default to 192 if missing
+  const tempoMap = buildTempoMap(ppq, midi.header.tempos, midi.header.timeSignatures);
+
+  // midi.durationTicks includes trailing meta events; the last note end is what we play to
+  let lastNoteTick = 0;
+  midi.tracks.forEach(t => t.notes.forEach(n => { lastNoteTick = Math.max(lastNoteTick, n.ticks + n.durationTicks); }));
+  const songTicks = lastNoteTick > 0 ? lastNoteTick : midi.durationTicks;
+
+  const notes: NoteData[] = [];
+  const channelNotes = new Map<number, NoteData[]>();
+  midi.tracks.forEach((track, index) => {
+    onProgress?.('notes', index / midi.tracks.length);
+    const trackNotes: NoteData[] = track.notes.map(note => ({
+      midi: note.midi,
+      name: note.name,
+      time: note.time,
+      ticks: note.ticks,
+      duration: note.duration,
+      durationTicks: note.durationTicks,
+      velocity: note.velocity,
+      trackIndex: index,
+      sustainTicks: note.durationTicks,
+      soft: false,
+      folded: false,
+    }));
+
+    const onChannel = channelNotes.get(track.channel) ?? [];
+    onChannel.push(...trackNotes);
+    channelNotes.set(track.channel, onChannel);
+    notes.push(...trackNotes);
+  });
+
+  // Pedals (CC64/66/67) act on a whole channel: the other hand's track, or a pedal-only one, pedals these notes too.
+  // A track's pedals go to the channel they were sent on, which for a track without notes only the raw events tell
+  const rawChannels = trackChannels(data);
+  const sentOn = rawChannels.length === midi.tracks.length ? rawChannels : [];
+  const channelControls = new Map<number, Track['controlChanges'][]>();
+  midi.tracks.forEach((track, index) => {
+    const channel = sentOn[index] ?? track.channel;
+    channelControls.set(channel, [...(channelControls.get(channel) ?? []), track.controlChanges]);
+  });
+
+  const channelPedals: Pedals[] = [];
+  new Set([...channelNotes.keys(), ...channelControls.keys()]).forEach(channel => {
+    const pedals = extractPedals(mergeControlChanges(channelControls.get(channel) ?? []), songTicks);
+    applyPedals(channelNotes.get(channel) ?? [], pedals);
+    channelPedals.push(pedals);
+  });
+
+  return arrangeSong({
+    tempoMap,
+    songTicks,
+    notes,
+    pedals: {
+      sustain: mergeSpans(channelPedals.map(p => p.sustain)),
+      sostenuto: mergeSpans(channelPedals.map(p => p.sostenuto)),
+      soft: mergeSpans(channelPedals.map(p => p.soft)),
+    },
+    tracks: describeTracks(midi),
+    keySignatures: buildKeySignatures(midi.header.keySignatures),
+    markers: buildSectionMarkers(midi.header.meta),
+    warnings: structure,
+  }, onProgress);
+}
+
+// Scores carry no pedal events; their note lengths are already as played
+function parseScore(score: ImportedScore, onProgress?: ParseProgress): ParsedSong {
+  const tempoMap = buildTempoMap(score.ppq, score.tempos, score.timeSignatures);
+  const notes: NoteData[] = [];
+  let songTicks = 0;
+  score.tracks.forEach((track, index) => {
+    onProgress?.('notes', index / score.tracks.length);
+    for (const note of track.notes) {
+      const time = ticksToSeconds(tempoMap, note.ticks);
+      songTicks = Math.max(songTicks, note.ticks + note.durationTicks);
+      notes.push({
+        midi: note.midi,
+        name: midiToNoteName(note.midi),
+        time,
+        ticks: note.ticks,
+        duration: ticksToSeconds(tempoMap, note.ticks + note.durationTicks) - time,
+        durationTicks: note.durationTicks,
+        velocity: note.velocity,
+        trackIndex: index,
+        sustainTicks: note.durationTicks,
+        soft: false,
+        folded: false,
+      });
+    }
+  });
+
+  return arrangeSong({
+    tempoMap,
+    songTicks,
+    notes,
+    pedals: { sustain: [], sostenuto: [], soft: [] },
+    tracks: score.tracks
+      .map((track, index) => ({
+        index,
+        name: track.name,
+        instrument: track.instrument,
+        program: track.program,
+        percussion: track.percussion,
+        noteCount: track.notes.length,
+      }))
+      .filter(t => t.noteCount > 0),
+    keySignatures: buildKeySignatures(score.keySignatures),
+    markers: buildSectionMarkers(score.markers),
+    warnings: score.warnings,
+  }, onProgress);
+}
+
+// Shared last steps: check the notes and sort them
+function arrangeSong(song: ParsedSong, onProgress?: ParseProgress): ParsedSong {
+  const percussion = new Set(song.tracks.filter(t => t.percussion).map(t => t.index));
+  const noteDiagnostics = inspectNotes(song.notes, percussion);
+  if (hasErrors(noteDiagnostics)) throw new MidiFileError(noteDiagnostics);
+
+  onProgress?.('arranging', 0);
+  song.notes.sort((a, b) => a.ticks - b.ticks);
+  onProgress?.('arranging', 1);
+
+  return { ...song, warnings: [...song.warnings, ...noteDiagnostics] };
+}
@@ -0,0 +1,21 @@
+import { parseSong } from './songParser';
+import { MidiFileError } from './midiDiagnostics';
+import type { SongParserMessage } from './songLoader';
+
+// --- Worker side of the song loader: parses one file and reports back ---
+
+const post = (message: SongParserMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<ArrayBuffer>) => {
+  try {
+    const song = await parseSong(e.data, (stage, fraction) => post({ type: 'progress', stage, fraction }));
+    post({ type: 'done', song });
+  } catch (err) {
+    post({
+      type: 'failed',
+      diagnostics: err instanceof MidiFileError
+        ? err.diagnostics
+        : [{ code: 'parse-failed', severity: 'error', message: `The file couldn't be read: ${err instanceof Error ? err.message : String(err)}.` }],
+    });
+  }
+};
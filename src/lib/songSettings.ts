@@ -0,0 +1,39 @@
+import type { LoopRegion, SpeedTrainer } from './loop';
+import type { HandSetup } from './hands';
+
+// --- Per-song settings, persisted in localStorage ---
+
+export interface SongSettings {
+  loop?: LoopRegion | null;
+  loopEnabled?: boolean;
+  trainer?: SpeedTrainer;
+  instruments?: Record<number, string>; // trackIndex -> instrument bank id
+  transpose?: number;                   // Semitones
+  octaves?: Record<number, number>;     // trackIndex -> octave shift
+  hands?: HandSetup;
+}
+
+const STORAGE_PREFIX = 'song_settings:';
+
+export function loadSongSettings(songKey: string): SongSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + songKey);
+    return raw ? (JSON.parse(raw) as SongSettings) : {};
+  } catch (e) {
+    console.warn("Could not read song settings", e);
+    return {};
+  }
+}
+
+export function saveSongSettings(songKey: string, patch: Partial<SongSettings>) {
+  try {
+    const next = { ...loadSongSettings(songKey), ...patch };
+    localStorage.setItem(STORAGE_PREFIX + songKey, JSON.stringify(next));
+  } catch (e) {
+    console.warn("Quota exceeded, could not save song settings", e);
+  }
+}
+
+export function clearSongSettings(songKey: string) {
+  localStorage.removeItem(STORAGE_PREFIX + songKey);
+}
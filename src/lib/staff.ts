@@ -0,0 +1,272 @@
+import type { NoteData } from './types';
+import { barBeatToTicks, meterAt, type TempoMap } from './tempoMap';
+import { keyAt, type KeySignature } from './noteLabels';
+import { HANDS, handOf, isHandShown, type Hand, type HandSetup } from './hands';
+
+// --- Grand staff: the song's notes quantized into bars, one staff per hand ---
+
+export type Clef = 'treble' | 'bass';
+
+export type Accidental = 'sharp' | 'flat' | 'natural';
+
+export interface StaffHead {
+  midi: number;
+  step: number;                  // Diatonic steps above C-1 (C4 = 35), as spelled
+  accidental: Accidental | null; // Printed before the head
+  tied: boolean;                 // Held over into the staff's next event
+}
+
+export interface StaffEvent {
+  ticks: number;
+  durationTicks: number;
+  value: 1 | 2 | 4 | 8 | 16;     // Whole, half, quarter, eighth, sixteenth
+  dotted: boolean;
+  heads: StaffHead[];            // Empty for a rest
+  wholeBar: boolean;             // A rest filling an empty bar, whatever its meter
+}
+
+export interface StaffMeasure {
+  number: number;                // 1-based
+  startTicks: number;
+  endTicks: number;
+  meter: [number, number];
+  fifths: number;                // Key signature: sharps (+) or flats (-)
+  meterChanged: boolean;         // First bar or a new time signature: print it
+  keyChanged: boolean;
+  staves: Record<Hand, StaffEvent[]>;
+}
+
+export interface GrandStaff {
+  ppq: number;
+  clefs: Record<Hand, Clef>;
+  measures: StaffMeasure[];
+}
+
+export interface GrandStaffOptions {
+  tempoMap: TempoMap;
+  songTicks: number;
+  keySignatures: KeySignature[];
+  transpose: number;             // The notes are already transposed; the keys move with them
+  hands: HandSetup;
+  hiddenTracks: number[];
+}
+
+// Onsets & releases snap to sixteenths
+const GRID_PER_QUARTER = 4;
+
+// Written lengths, longest first, in quarter notes
+const NOTE_VALUES: { quarters: number; value: StaffEvent['value']; dotted: boolean }[] = [
+  { quarters: 4, value: 1, dotted: false },
+  { quarters: 3, value: 2, dotted: true },
+  { quarters: 2, value: 2, dotted: false },
+  { quarters: 1.5, value: 4, dotted: true },
+  { quarters: 1, value: 4, dotted: false },
+  { quarters: 0.75, value: 8, dotted: true },
+  { quarters: 0.5, value: 8, dotted: false },
+  { quarters: 0.25, value: 16, dotted: false },
+];
+
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11]; // C D E F G A B
+const SHARP_ORDER = [3, 0, 4, 1, 5, 2, 6];     // F C G D A E B
+const FLAT_ORDER = [6, 2, 5, 1, 4, 0, 3];      // B E A D G C F
+// Major tonic (pitch class) -> fifths; Db rather than C#, F# rather than Gb
+const MAJOR_FIFTHS = [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5];
+
+// Average pitches past which a hand's staff changes clef
+const RIGHT_HAND_BASS_BELOW = 55;
+const LEFT_HAND_TREBLE_ABOVE = 64;
+
+const EPSILON = 1e-6;
+
+function pitchClass(midi: number) {
+  return ((midi % 12) + 12) % 12;
+}
+
+/** Sharps (+) or flats (-) in the signature of a key; minor keys use their relative major's. */
+export function keyFifths(key: KeySignature): number {
+  return MAJOR_FIFTHS[pitchClass(key.tonic + (key.minor ? 3 : 0))];
+}
+
+/** -1, 0 or +1: what the key signature does to a letter (0 = C .. 6 = B). */
+export function keyAlteration(fifths: number, letter: number): number {
+  if (fifths > 0) return SHARP_ORDER.indexOf(letter) < fifths ? 1 : 0;
+  if (fifths < 0) return FLAT_ORDER.indexOf(letter) < -fifths ? -1 : 0;
+  return 0;
+}
+
+/**
+ * How a key spells a pitch: its own scale degrees first, then the raised 3rd,
+ * 6th and 7th of a minor key (F♯ and C♯ in D minor), then a natural, then a
+ * sharp in sharp keys and a flat in flat ones.
+ */
+export function spellPitch(midi: number, key: KeySignature): { letter: number; alter: number; step: number } {
+  const pc = pitchClass(midi);
+  const fifths = keyFifths(key);
+  const candidates: { letter: number; alter: number }[] = [];
+  LETTER_PITCHES.forEach((base, letter) => {
+    const alter = ((pc - base + 18) % 12) - 6;
+    if (Math.abs(alter) <= 1) candidates.push({ letter, alter });
+  });
+  const raisedMinorDegree = key.minor && [4, 9, 11].some(degree => pc === pitchClass(key.tonic + degree));
+  const pick = candidates.find(c => c.alter === keyAlteration(fifths, c.letter))
+    ?? (raisedMinorDegree ? candidates.find(c => c.alter === keyAlteration(fifths, c.letter) + 1) : undefined)
+    ?? candidates.find(c => c.alter === 0)
+    ?? candidates.find(c => c.alter === (fifths < 0 ? -1 : 1))
+    ?? candidates[0];
+  const natural = midi - pick.alter;
+  return { ...pick, step: Math.floor(natural / 12) * 7 + pick.letter };
+}
+
+// Treble for the right hand and bass for the left, unless a hand spends the song in the other's register
+function pickClef(hand: Hand, notes: NoteData[]): Clef {
+  if (notes.length === 0) return hand === 'right' ? 'treble' : 'bass';
+  const average = notes.reduce((sum, n) => sum + n.midi, 0) / notes.length;
+  if (hand === 'right') return average < RIGHT_HAND_BASS_BELOW ? 'bass' : 'treble';
+  return average > LEFT_HAND_TREBLE_ABOVE ? 'treble' : 'bass';
+}
+
+interface QuantizedChord {
+  start: number;
+  end: number;
+  midis: number[];
+}
+
+// One voice per staff: notes struck together make a chord, held until the staff's next onset at the latest
+function quantizeChords(notes: NoteData[], grid: number): QuantizedChord[] {
+  const byStart = new Map<number, { end: number; midis: Set<number> }>();
+  for (const note of notes) {
+    const start = Math.round(note.ticks / grid) * grid;
+    const end = Math.max(start + grid, Math.round((note.ticks + note.durationTicks) / grid) * grid);
+    const chord = byStart.get(start);
+    if (chord) {
+      chord.end = Math.min(chord.end, end);
+      chord.midis.add(note.midi);
+    } else {
+      byStart.set(start, { end, midis: new Set([note.midi]) });
+    }
+  }
+  const starts = [...byStart.keys()].sort((a, b) => a - b);
+  return starts.map((start, i) => {
+    const chord = byStart.get(start)!;
+    return {
+      start,
+      end: Math.min(chord.end, starts[i + 1] ?? Infinity),
+      midis: [...chord.midis].sort((a, b) => a - b),
+    };
+  });
+}
+
+// Greedy split of a span into written lengths; what's left under a sixteenth (odd bar lengths) is dropped
+function splitSpan(start: number, end: number, ppq: number) {
+  const pieces: { ticks: number; durationTicks: number; value: StaffEvent['value']; dotted: boolean }[] = [];
+  let at = start;
+  while (end - at >= ppq / GRID_PER_QUARTER - EPSILON) {
+    const fit = NOTE_VALUES.find(v => v.quarters * ppq <= end - at + EPSILON)!;
+    pieces.push({ ticks: at, durationTicks: fit.quarters * ppq, value: fit.value, dotted: fit.dotted });
+    at += fit.quarters * ppq;
+  }
+  return pieces;
+}
+
+/**
+ * Lays the song out as a grand staff: bars from the tempo map, notes snapped
+ * to sixteenths and sorted onto a staff per hand (as the hands panel assigns
+ * them), rests filling the gaps, ties across bar lines, and accidentals
+ * spelled from the key signature in force, remembered to the end of the bar.
+ */
+export function buildGrandStaff(notes: NoteData[], options: GrandStaffOptions): GrandStaff {
+  const { tempoMap, songTicks, keySignatures, transpose, hands, hiddenTracks } = options;
+  const ppq = tempoMap.ppq;
+  const grid = ppq / GRID_PER_QUARTER;
+  const hidden = new Set(hiddenTracks);
+
+  const handNotes: Record<Hand, NoteData[]> = { right: [], left: [] };
+  for (const note of notes) {
+    if (hidden.has(note.trackIndex) || !isHandShown(hands, note.midi, note.trackIndex)) continue;
+    handNotes[handOf(hands, note.midi, note.trackIndex)].push(note);
+  }
+  const clefs: Record<Hand, Clef> = { right: pickClef('right', handNotes.right), left: pickClef('left', handNotes.left) };
+  const chords: Record<Hand, QuantizedChord[]> = {
+    right: quantizeChords(handNotes.right, grid),
+    left: quantizeChords(handNotes.left, grid),
+  };
+  const nextChord: Record<Hand, number> = { right: 0, left: 0 };
+
+  const measures: StaffMeasure[] = [];
+  for (let bar = 1; ; bar++) {
+    const startTicks = barBeatToTicks(tempoMap, bar);
+    if (startTicks >= songTicks && bar > 1) break;
+    const endTicks = barBeatToTicks(tempoMap, bar + 1);
+    if (endTicks <= startTicks) break;
+    const meter = meterAt(tempoMap, startTicks);
+    const key = keyAt(keySignatures, startTicks, transpose);
+    const fifths = keyFifths(key);
+    const previous = measures[measures.length - 1];
+
+    const staves: Record<Hand, StaffEvent[]> = { right: [], left: [] };
+    for (const { hand } of HANDS) {
+      const events = staves[hand];
+      const list = chords[hand];
+      // Chords are back to back, so their ends are in order too
+      while (nextChord[hand] < list.length && list[nextChord[hand]].end <= startTicks) nextChord[hand]++;
+      const accidentals = new Map<number, number>(); // step -> alteration, for the rest of the bar
+
+      const addRests = (from: number, to: number) => {
+        splitSpan(from, to, ppq).forEach(piece => events.push({ ...piece, heads: [], wholeBar: false }));
+      };
+
+      let at = startTicks;
+      for (let i = nextChord[hand]; i < list.length && list[i].start < endTicks; i++) {
+        const chord = list[i];
+        const from = Math.max(chord.start, startTicks);
+        const to = Math.min(chord.end, endTicks);
+        if (from > at + EPSILON) addRests(at, from);
+        const tiedIn = chord.start < startTicks;
+        const tiedOut = chord.end > endTicks;
+        const spelled = chord.midis.map(midi => {
+          const spelling = spellPitch(midi, key);
+          let accidental: Accidental | null = null;
+          // A note tied over the bar line keeps its accidental without repeating it
+          if (!tiedIn) {
+            const current = accidentals.get(spelling.step) ?? keyAlteration(fifths, spelling.letter);
+            if (spelling.alter !== current) accidental = spelling.alter > 0 ? 'sharp' : spelling.alter < 0 ? 'flat' : 'natural';
+            accidentals.set(spelling.step, spelling.alter);
+          }
+          return { midi, step: spelling.step, accidental };
+        });
+        const pieces = splitSpan(from, to, ppq);
+        pieces.forEach((piece, p) => {
+          const last = p === pieces.length - 1;
+          events.push({
+            ...piece,
+            heads: spelled.map(head => ({
+              ...head,
+              accidental: p === 0 ? head.accidental : null,
+              tied: !last || tiedOut,
+            })),
+            wholeBar: false,
+          });
+        });
+        at = Math.max(at, to);
+      }
+      if (events.length === 0) {
+        events.push({ ticks: startTicks, durationTicks: endTicks - startTicks, value: 1, dotted: false, heads: [], wholeBar: true });
+      } else if (endTicks > at + EPSILON) {
+        addRests(at, endTicks);
+      }
+    }
+
+    measures.push({
+      number: bar,
+      startTicks,
+      endTicks,
+      meter,
+      fifths,
+      meterChanged: !previous || previous.meter[0] !== meter[0] || previous.meter[1] !== meter[1],
+      keyChanged: !previous || previous.fifths !== fifths,
+      staves,
+    });
+  }
+
+  return { ppq, clefs, measures };
+}
@@ -0,0 +1,183 @@
+// --- Tempo map: exact conversion between ticks, seconds and bars:beats ---
+
+export interface TempoEvent {
+  ticks: number;
+  bpm: number; // Quarter notes per minute
+}
+
+export interface TimeSignatureEvent {
+  ticks: number;
+  timeSignature: number[]; // [numerator, denominator]
+}
+
+interface TempoSegment {
+  ticks: number;
+  seconds: number; // Song time at which this tempo starts
+  bpm: number;
+}
+
+interface MeterSegment {
+  ticks: number;
+  bar: number; // 0-based bar index at which this meter starts
+  numerator: number;
+  denominator: number;
+}
+
+export interface TempoMap {
+  ppq: number;
+  tempos: TempoSegment[];
+  meters: MeterSegment[];
+}
+
+export interface BarBeat {
+  bar: number;  // 1-based
+  beat: number; // 1-based, in units of the time-signature denominator
+  tick: number; // Ticks into the beat
+}
+
+// MIDI files play at 120 BPM in 4/4 until told otherwise
+const DEFAULT_BPM = 120;
+const DEFAULT_METER = [4, 4];
+
+// Index of the last segment starting at or before `value`
+function findSegment<T>(segments: T[], value: number, key: (s: T) => number): number {
+  let lo = 0;
+  let hi = segments.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (key(segments[mid]) <= value) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+export function buildTempoMap(
+  ppq: number,
+  tempoEvents: TempoEvent[],
+  timeSignatureEvents: TimeSignatureEvent[]
+): TempoMap {
+  // 1. Tempo segments, with the song time each one starts at
+  const sortedTempos = [...tempoEvents].sort((a, b) => a.ticks - b.ticks);
+  if (sortedTempos.length === 0 || sortedTempos[0].ticks > 0) {
+    sortedTempos.unshift({ ticks: 0, bpm: DEFAULT_BPM });
+  }
+
+  const tempos: TempoSegment[] = [];
+  for (const event of sortedTempos) {
+    const prev = tempos[tempos.length - 1];
+    // Later events at the same tick win
+    if (prev && prev.ticks === event.ticks) {
+      prev.bpm = event.bpm;
+      continue;
+    }
+    const seconds = prev ? prev.seconds + ((event.ticks - prev.ticks) / ppq) * (60 / prev.bpm) : 0;
+    tempos.push({ ticks: event.ticks, seconds, bpm: event.bpm });
+  }
+
+  // 2. Meter segments, with the bar each one starts on
+  const sortedMeters = [...timeSignatureEvents].sort((a, b) => a.ticks - b.ticks);
+  if (sortedMeters.length === 0 || sortedMeters[0].ticks > 0) {
+    sortedMeters.unshift({ ticks: 0, timeSignature: DEFAULT_METER });
+  }
+
+  const meters: MeterSegment[] = [];
+  for (const event of sortedMeters) {
+    const [numerator, denominator] = event.timeSignature;
+    const prev = meters[meters.length - 1];
+    if (prev && prev.ticks === event.ticks) {
+      prev.numerator = numerator;
+      prev.denominator = denominator;
+      continue;
+    }
+    // A change that lands mid-bar starts a fresh bar where it occurs
+    const bar = prev ? prev.bar + Math.ceil((event.ticks - prev.ticks) / barLength(ppq, prev) - 1e-9) : 0;
+    meters.push({ ticks: event.ticks, bar, numerator, denominator });
+  }
+
+  return { ppq, tempos, meters };
+}
+
+function barLength(ppq: number, meter: { numerator: number; denominator: number }) {
+  return beatLength(ppq, meter) * meter.numerator;
+}
+
+function beatLength(ppq: number, meter: { denominator: number }) {
+  return (ppq * 4) / meter.denominator;
+}
+
+/** BPM (quarter notes per minute) in force at `ticks`. */
+export function tempoAt(map: TempoMap, ticks: number): number {
+  return map.tempos[findSegment(map.tempos, ticks, s => s.ticks)].bpm;
+}
+
+/** Time signature in force at `ticks`, as [numerator, denominator]. */
+export function meterAt(map: TempoMap, ticks: number): [number, number] {
+  const meter = map.meters[findSegment(map.meters, ticks, s => s.ticks)];
+  return [meter.numerator, meter.denominator];
+}
+
+export function ticksToSeconds(map: TempoMap, ticks: number): number {
+  const seg = map.tempos[findSegment(map.tempos, ticks, s => s.ticks)];
+  return seg.seconds + ((ticks - seg.ticks) / map.ppq) * (60 / seg.bpm);
+}
+
+export function secondsToTicks(map: TempoMap, seconds: number): number {
+  const seg = map.tempos[findSegment(map.tempos, seconds, s => s.seconds)];
+  return seg.ticks + ((seconds - seg.seconds) * seg.bpm / 60) * map.ppq;
+}
+
+export function ticksToBarBeat(map: TempoMap, ticks: number): BarBeat {
+  const meter = map.meters[findSegment(map.meters, ticks, s => s.ticks)];
+  const barTicks = barLength(map.ppq, meter);
+  const beatTicks = beatLength(map.ppq, meter);
+
+  const elapsed = Math.max(0, ticks - meter.ticks);
+  const barOffset = Math.floor(elapsed / barTicks);
+  const inBar = elapsed - barOffset * barTicks;
+  const beat = Math.floor(inBar / beatTicks);
+
+  return {
+    bar: meter.bar + barOffset + 1,
+    beat: beat + 1,
+    tick: inBar - beat * beatTicks,
+  };
+}
+
+/** Tick at which the given 1-based bar (and beat) starts. */
+export function barBeatToTicks(map: TempoMap, bar: number, beat = 1): number {
+  const barIndex = Math.max(0, bar - 1);
+  const meter = map.meters[findSegment(map.meters, barIndex, s => s.bar)];
+  return meter.ticks
+    + (barIndex - meter.bar) * barLength(map.ppq, meter)
+    + (beat - 1) * beatLength(map.ppq, meter);
+}
+
+export interface Beat {
+  ticks: number;
+  bar: number;  // 1-based
+  beat: number; // 1-based; beat 1 is the downbeat
+}
+
+/** Every beat that starts in [fromTicks, toTicks), following meter changes. */
+export function beatsBetween(map: TempoMap, fromTicks: number, toTicks: number): Beat[] {
+  const beats: Beat[] = [];
+  const first = findSegment(map.meters, Math.max(0, fromTicks), s => s.ticks);
+  for (let i = first; i < map.meters.length && map.meters[i].ticks < toTicks; i++) {
+    const meter = map.meters[i];
+    const end = Math.min(toTicks, map.meters[i + 1]?.ticks ?? Infinity);
+    const beatTicks = beatLength(map.ppq, meter);
+    const firstBeat = Math.max(0, Math.ceil((fromTicks - meter.ticks) / beatTicks - 1e-9));
+    for (let n = firstBeat; meter.ticks + n * beatTicks < end; n++) {
+      beats.push({
+        ticks: meter.ticks + n * beatTicks,
+        bar: meter.bar + Math.floor(n / meter.numerator) + 1,
+        beat: (n % meter.numerator) + 1,
+      });
+    }
+  }
+  return beats;
+}
+
+export function formatBarBeat({ bar, beat }: BarBeat): string {
+  return `${bar}.${beat}`;
+}
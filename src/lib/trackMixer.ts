@@ -0,0 +1,75 @@
+import * as Tone from 'tone';
+import { createInstrument, type Instrument, type InstrumentKit } from './instruments';
+
+// --- Per-track mixer ---
+
+export interface TrackInfo {
+  index: number;      // Index into midi.tracks (matches NoteData.trackIndex)
+  name: string;
+  instrument: string;
+  program: number;    // GM program, 0-127
+  percussion: boolean; // MIDI channel 10
+  noteCount: number;
+}
+
+export interface TrackMix {
+  muted: boolean;
+  solo: boolean;
+  volume: number;     // Linear gain, 0..1
+  hidden: boolean;    // Hide from waterfall & key highlights
+  color: string;
+  instrument: string; // Bank id in the instrument manifest
+  octave: number;     // Octave shift, on top of the song's transposition
+}
+
+// Each track plays through its own instrument into its own channel strip, so
+// mute/solo/volume are plain AudioParam changes and never touch the schedule.
+export interface TrackVoice {
+  instrument: Instrument;
+  channel: Tone.Channel;
+}
+
+// Track 0 keeps the original "right hand" purple, track 1 the "left hand" blue
+export const TRACK_COLORS = ['#a78bfa', '#38bdf8', '#34d399', '#fbbf24', '#f472b6', '#fb923c', '#22d3ee', '#a3e635'];
+
+export function defaultTrackMix(index: number, instrument: string): TrackMix {
+  return {
+    muted: false,
+    solo: false,
+    volume: 0.8,
+    hidden: false,
+    color: TRACK_COLORS[index % TRACK_COLORS.length],
+    instrument,
+    octave: 0,
+  };
+}
+
+export function applyTrackMix(voice: TrackVoice, mix: TrackMix) {
+  voice.channel.mute = mix.muted;
+  voice.channel.solo = mix.solo;
+  voice.channel.volume.value = mix.volume > 0 ? Tone.gainToDb(mix.volume) : -Infinity;
+}
+
+/** The track's instrument on shared banks, routed through its own channel strip to the (current context's) output. */
+export function createTrackVoice(kit: InstrumentKit, mix: TrackMix): TrackVoice {
+  const channel = new Tone.Channel().toDestination();
+  const voice = { instrument: createInstrument(kit, mix.instrument).connect(channel), channel };
+  applyTrackMix(voice, mix);
+  return voice;
+}
+
+/** Swaps the instrument behind a track's channel strip; the schedule picks it up on the next note. */
+export function setVoiceInstrument(voice: TrackVoice, kit: InstrumentKit, bankId: string) {
+  const previous = voice.instrument;
+  voice.instrument = createInstrument(kit, bankId).connect(voice.channel);
+  previous.releaseAll();
+  previous.dispose();
+}
+
+export function disposeTrackVoices(voices: Map<number, TrackVoice>) {
+  voices.forEach(({ instrument, channel }) => {
+    instrument.dispose();
+    channel.dispose();
+  });
+  voices.clear();
+}
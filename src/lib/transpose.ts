@@ -0,0 +1,61 @@
+import type { NoteData } from './types';
+import { isBlackKey, midiToNoteName } from './noteNames';
+
+// --- Transposition, per-track octave shifts & keyboard range ---
+
+export const PIANO_MIN = 21;   // A0
+export const PIANO_MAX = 108;  // C8
+export const MAX_TRANSPOSE = 12;
+export const MAX_OCTAVE_SHIFT = 3;
+
+// Keys of headroom shown either side of the lowest/highest note
+const RANGE_PADDING = 2;
+
+export const DEFAULT_PIANO_RANGE = { min: PIANO_MIN, max: PIANO_MAX };
+
+export interface PitchShift {
+  semitones: number;                 // Whole song, -12..12
+  octaves: Record<number, number>;   // trackIndex -> octaves, -3..3
+  exempt: Set<number>;               // Tracks never shifted (drum kits: pitch picks the drum)
+}
+
+/**
+ * Written notes -> sounding notes. Anything pushed off the 88 keys is folded
+ * back by whole octaves and marked `folded`, so it is still played and drawn
+ * (differently) rather than disappearing. Returns copies; the source is untouched.
+ */
+export function shiftNotes(source: NoteData[], shift: PitchShift): NoteData[] {
+  return source.map((note) => {
+    if (shift.exempt.has(note.trackIndex)) return note;
+    const offset = shift.semitones + 12 * (shift.octaves[note.trackIndex] ?? 0);
+    if (offset === 0 && note.midi >= PIANO_MIN && note.midi <= PIANO_MAX) return note;
+
+    let midi = note.midi + offset;
+    let folded = false;
+    while (midi < PIANO_MIN) { midi += 12; folded = true; }
+    while (midi > PIANO_MAX) { midi -= 12; folded = true; }
+    return { ...note, midi, name: midiToNoteName(midi), folded };
+  });
+}
+
+/** Keyboard range that fits the notes with a little padding, on white-key edges. */
+export function keyboardRangeFor(notes: NoteData[]): { min: number; max: number } {
+  if (notes.length === 0) return DEFAULT_PIANO_RANGE;
+  let min = PIANO_MAX;
+  let max = PIANO_MIN;
+  for (const note of notes) {
+    if (note.midi < min) min = note.midi;
+    if (note.midi > max) max = note.midi;
+  }
+
+  min = Math.max(PIANO_MIN, min - RANGE_PADDING);
+  max = Math.min(PIANO_MAX, max + RANGE_PADDING);
+  // White-key boundaries make for cleaner edges (A0 and C8 are both white)
+  if (isBlackKey(min)) min--;
+  if (isBlackKey(max)) max++;
+  return { min, max };
+}
+
+export function formatSemitones(semitones: number): string {
+  return semitones > 0 ? `+${semitones}` : String(semitones);
+}
@@ -0,0 +1,16 @@
+// --- Shared Song Types ---
+
+export interface NoteData {
+  midi: number;
+  name: string;
+  time: number;
+  ticks: number;
+  duration: number;
+  durationTicks: number;
+  velocity: number;
+  trackIndex: number;
+  sustainTicks: number; // Until the sampler releases it, pedals included (>= durationTicks)
+  soft: boolean;        // Struck under the soft pedal
+  folded: boolean;      // Transposed off the keyboard and folded back by octaves
+  finger?: number;      // 1 (thumb) .. 5, suggested for the hand playing it
+}
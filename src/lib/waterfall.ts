@@ -0,0 +1,180 @@
+import { NOTE_FOLDED, firstNoteStartingAt, forEachNoteIn, type NoteBuffer } from './noteBuffer';
+import { HAND_COLORS, HANDS, handOf, isHandShown, type HandSetup } from './hands';
+
+// --- Falling-note drawing, shared by the worker renderer and its main-thread fallback ---
+
+/**
+ * Key positions by MIDI number: [left, width] pairs as fractions of the
+ * waterfall width, taken from the keyboard layout. Width 0 = not on the keyboard.
+ */
+export type KeyLayout = Float32Array;
+
+export interface WaterfallStyle {
+  colors: Record<number, string>; // trackIndex -> note color
+  hidden: number[];               // Track indexes left out of the waterfall
+  hands?: HandSetup;              // Hidden hands are left out too; a split colors notes by hand
+}
+
+export interface WaterfallFrame {
+  ticks: number;        // Playhead, at the hit line
+  visibleTicks: number; // Ticks from the hit line to the top edge
+}
+
+export interface WaterfallSize {
+  width: number;  // CSS pixels
+  height: number;
+  pixelRatio: number;
+}
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const NOTE_RADIUS = 4;
+// Velocity shows as brightness: notes are drawn in this many opacity steps, softest first
+const VELOCITY_LEVELS = 4;
+const MIN_VELOCITY_ALPHA = 0.35;
+
+export function buildKeyLayout(keys: { midi: number; left: number; width: number }[]): KeyLayout {
+  const layout = new Float32Array(128 * 2);
+  for (const key of keys) {
+    layout[key.midi * 2] = key.left / 100;
+    layout[key.midi * 2 + 1] = key.width / 100;
+  }
+  return layout;
+}
+
+function roundRect(ctx: Context2D, x: number, y: number, w: number, h: number, r: number) {
+  if (w < 2 * r) r = w / 2;
+  if (h < 2 * r) r = h / 2;
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+/**
+ * Draws the notes in view with one fill per color and velocity level (louder =
+ * brighter), with no shadows: the time index walks just the notes in view,
+ * sorting them into their fill, and each fill that has notes is one path.
+ */
+export function drawNotes(
+  ctx: Context2D,
+  notes: NoteBuffer,
+  layout: KeyLayout,
+  style: WaterfallStyle,
+  size: WaterfallSize,
+  frame: WaterfallFrame
+) {
+  const { width, height } = size;
+  ctx.clearRect(0, 0, width, height);
+  if (notes.count === 0 || frame.visibleTicks <= 0) return;
+
+  const pixelsPerTick = height / frame.visibleTicks;
+  const lastTicks = frame.ticks + frame.visibleTicks;
+
+  // One color per track, or per hand when a single track is split between them
+  const { hands } = style;
+  const trackColors = Object.entries(style.colors);
+  const colors = hands && hands.split !== null ? HANDS.map(({ hand }) => HAND_COLORS[hand]) : trackColors.map(([, color]) => color);
+  const trackGroup = new Map(trackColors.map(([index], g) => [Number(index), g]));
+  const groupOf = (i: number) => hands && hands.split !== null
+    ? HANDS.findIndex(({ hand }) => hand === handOf(hands, notes.midi[i], notes.track[i]))
+    : trackGroup.get(notes.track[i]) ?? -1;
+
+  // Note indexes per fill (group x velocity level), and the folded ones for their outline
+  const fills: number[][] = Array.from({ length: colors.length * VELOCITY_LEVELS }, () => []);
+  const folded: number[] = [];
+  forEachNoteIn(notes, frame.ticks, lastTicks, i => {
+    if (layout[notes.midi[i] * 2 + 1] === 0) return;
+    if (style.hidden.includes(notes.track[i]) || (hands && !isHandShown(hands, notes.midi[i], notes.track[i]))) return;
+    const group = groupOf(i);
+    if (group < 0) return;
+    // 0..127 -> 0..VELOCITY_LEVELS-1
+    const level = Math.min(VELOCITY_LEVELS - 1, (notes.velocity[i] * VELOCITY_LEVELS) >> 7);
+    fills[group * VELOCITY_LEVELS + level].push(i);
+    if (notes.flags[i] & NOTE_FOLDED) folded.push(i);
+  });
+
+  const addNote = (i: number, inset: number) => {
+    const h = notes.durationTicks[i] * pixelsPerTick;
+    const bottom = height - (notes.ticks[i] - frame.ticks) * pixelsPerTick;
+    roundRect(
+      ctx,
+      layout[notes.midi[i] * 2] * width + inset,
+      bottom - h + inset,
+      layout[notes.midi[i] * 2 + 1] * width - inset * 2,
+      h - 1 - inset * 2,
+      NOTE_RADIUS
+    );
+  };
+
+  fills.forEach((fill, f) => {
+    if (fill.length === 0) return;
+    const level = f % VELOCITY_LEVELS;
+    ctx.fillStyle = colors[(f - level) / VELOCITY_LEVELS];
+    ctx.globalAlpha = MIN_VELOCITY_ALPHA + (1 - MIN_VELOCITY_ALPHA) * (level + 1) / VELOCITY_LEVELS;
+    ctx.beginPath();
+    fill.forEach(i => addNote(i, 0));
+    ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+
+  // Notes folded back onto the keyboard after transposing get a dashed outline
+  if (folded.length === 0) return;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([4, 3]);
+  ctx.beginPath();
+  folded.forEach(i => addNote(i, 1));
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+// --- Percussion lane: one column per drum, hits as fixed-size pads ---
+
+const DRUM_HIT_HEIGHT = 6;
+
+/**
+ * Draws the drum hits in view into their lane columns (`lanes` = drum pitch
+ * per column) and returns the drums struck within `hitTicks` of the playhead.
+ * Drum durations carry no meaning, so every hit is drawn the same height.
+ */
+export function drawDrumLane(
+  ctx: Context2D,
+  notes: NoteBuffer,
+  lanes: number[],
+  style: WaterfallStyle,
+  size: WaterfallSize,
+  frame: WaterfallFrame,
+  hitTicks: number
+): Set<number> {
+  const { width, height } = size;
+  const struck = new Set<number>();
+  ctx.clearRect(0, 0, width, height);
+  if (lanes.length === 0 || frame.visibleTicks <= 0) return struck;
+
+  const columnWidth = width / lanes.length;
+  const column = new Map(lanes.map((midi, i) => [midi, i]));
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
+  for (let i = 1; i < lanes.length; i += 2) ctx.fillRect(i * columnWidth, 0, columnWidth, height);
+
+  const pixelsPerTick = height / frame.visibleTicks;
+  const lastTicks = frame.ticks + frame.visibleTicks;
+  for (let i = firstNoteStartingAt(notes, frame.ticks - hitTicks); i < notes.count && notes.ticks[i] <= lastTicks; i++) {
+    const track = notes.track[i];
+    const x = column.get(notes.midi[i]);
+    if (x === undefined || style.hidden.includes(track)) continue;
+    const sinceHit = frame.ticks - notes.ticks[i];
+    if (sinceHit >= hitTicks) continue;
+    if (sinceHit >= 0) struck.add(notes.midi[i]);
+    const bottom = height + Math.min(0, sinceHit) * pixelsPerTick;
+    ctx.fillStyle = style.colors[track] ?? '#94a3b8';
+    ctx.globalAlpha = sinceHit >= 0 ? 1 - sinceHit / hitTicks : 1;
+    ctx.beginPath();
+    roundRect(ctx, x * columnWidth + 3, bottom - DRUM_HIT_HEIGHT, columnWidth - 6, DRUM_HIT_HEIGHT, 2);
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+  return struck;
+}
@@ -0,0 +1,52 @@
+import { EMPTY_NOTE_BUFFER } from './noteBuffer';
+import { drawNotes, type KeyLayout, type WaterfallFrame, type WaterfallSize, type WaterfallStyle } from './waterfall';
+import type { WaterfallMessage } from './waterfallRenderer';
+
+// --- Worker side of the waterfall renderer: owns the OffscreenCanvas and draws on request ---
+
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let canvas: OffscreenCanvas | null = null;
+let notes = EMPTY_NOTE_BUFFER;
+let layout: KeyLayout = new Float32Array(256);
+let style: WaterfallStyle = { colors: {}, hidden: [] };
+let size: WaterfallSize = { width: 0, height: 0, pixelRatio: 1 };
+let pending: WaterfallFrame | null = null;
+
+// Frames that queue up while one is being drawn collapse into the latest
+function drawPending() {
+  if (!ctx || !pending) return;
+  const frame = pending;
+  pending = null;
+  drawNotes(ctx, notes, layout, style, size, frame);
+}
+
+self.onmessage = (e: MessageEvent<WaterfallMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'canvas':
+      canvas = message.canvas;
+      ctx = canvas.getContext('2d');
+      break;
+    case 'notes':
+      notes = message.notes;
+      break;
+    case 'layout':
+      layout = message.layout;
+      break;
+    case 'style':
+      style = message.style;
+      break;
+    case 'resize':
+      size = message.size;
+      if (canvas && ctx) {
+        canvas.width = size.width * size.pixelRatio;
+        canvas.height = size.height * size.pixelRatio;
+        ctx.setTransform(size.pixelRatio, 0, 0, size.pixelRatio, 0, 0);
+      }
+      break;
+    case 'frame':
+      if (!pending) setTimeout(drawPending, 0);
+      pending = message.frame;
+      break;
+  }
+};
@@ -0,0 +1,79 @@
+import { EMPTY_NOTE_BUFFER, type NoteBuffer } from './noteBuffer';
+import {
+  drawNotes,
+  type KeyLayout,
+  type WaterfallFrame,
+  type WaterfallSize,
+  type WaterfallStyle,
+} from './waterfall';
+
+// --- Falling-note layer: drawn in a worker on an OffscreenCanvas where the browser allows ---
+
+export type WaterfallMessage =
+  | { type: 'canvas'; canvas: OffscreenCanvas }
+  | { type: 'notes'; notes: NoteBuffer }
+  | { type: 'layout'; layout: KeyLayout }
+  | { type: 'style'; style: WaterfallStyle }
+  | { type: 'resize'; size: WaterfallSize }
+  | { type: 'frame'; frame: WaterfallFrame };
+
+export interface WaterfallRenderer {
+  setNotes: (notes: NoteBuffer) => void;
+  setLayout: (layout: KeyLayout) => void;
+  setStyle: (style: WaterfallStyle) => void;
+  resize: (size: WaterfallSize) => void;
+  draw: (frame: WaterfallFrame) => void;
+  dispose: () => void;
+}
+
+/**
+ * Adds a canvas for the falling notes to `container` and returns its renderer.
+ * The canvas is created here rather than by React: control of a canvas can be
+ * handed to a worker only once, and StrictMode mounts effects twice.
+ */
+export function createWaterfallRenderer(container: HTMLElement): WaterfallRenderer {
+  const canvas = document.createElement('canvas');
+  canvas.className = 'waterfall-notes';
+  container.prepend(canvas);
+
+  const remove = () => canvas.remove();
+  if (typeof canvas.transferControlToOffscreen === 'function' && typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('./waterfall.worker.ts', import.meta.url), { type: 'module' });
+    const post = (message: WaterfallMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+    const offscreen = canvas.transferControlToOffscreen();
+    post({ type: 'canvas', canvas: offscreen }, [offscreen]);
+    return {
+      setNotes: (notes) => post({ type: 'notes', notes }),
+      setLayout: (layout) => post({ type: 'layout', layout }),
+      setStyle: (style) => post({ type: 'style', style }),
+      resize: (size) => post({ type: 'resize', size }),
+      draw: (frame) => post({ type: 'frame', frame }),
+      dispose: () => {
+        worker.terminate();
+        remove();
+      },
+    };
+  }
+
+  // No OffscreenCanvas: same drawing, on the main thread
+  const ctx = canvas.getContext('2d');
+  let notes = EMPTY_NOTE_BUFFER;
+  let layout: KeyLayout = new Float32Array(256);
+  let style: WaterfallStyle = { colors: {}, hidden: [] };
+  let size: WaterfallSize = { width: 0, height: 0, pixelRatio: 1 };
+  return {
+    setNotes: (next) => { notes = next; },
+    setLayout: (next) => { layout = next; },
+    setStyle: (next) => { style = next; },
+    resize: (next) => {
+      size = next;
+      canvas.width = next.width * next.pixelRatio;
+      canvas.height = next.height * next.pixelRatio;
+      ctx?.setTransform(next.pixelRatio, 0, 0, next.pixelRatio, 0, 0);
+    },
+    draw: (frame) => {
+      if (ctx) drawNotes(ctx, notes, layout, style, size, frame);
+    },
+    dispose: remove,
+  };
+}
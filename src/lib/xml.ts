@@ -0,0 +1,126 @@
+// --- Small XML reader for MusicXML ---
+// DOMParser isn't available in workers, where songs are parsed. This covers what
+// score files use: elements, attributes, text & CDATA. Comments, processing
+// instructions and the DOCTYPE are skipped; namespaces are kept in the names.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Text directly inside the element, entities decoded
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Parses a whole document and returns its root element. Throws on markup that doesn't nest. */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  while (i < source.length) {
+    const open = source.indexOf('<', i);
+    const top = stack[stack.length - 1];
+    if (open === -1) {
+      top.text += decodeEntities(source.slice(i));
+      break;
+    }
+    if (open > i) top.text += decodeEntities(source.slice(i, open));
+
+    if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open + 4);
+      if (end === -1) throw new Error('Unclosed comment');
+      i = end + 3;
+    } else if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open + 9);
+      if (end === -1) throw new Error('Unclosed CDATA section');
+      top.text += source.slice(open + 9, end);
+      i = end + 3;
+    } else if (source.startsWith('<?', open)) {
+      const end = source.indexOf('?>', open + 2);
+      if (end === -1) throw new Error('Unclosed processing instruction');
+      i = end + 2;
+    } else if (source.startsWith('<!', open)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let depth = 0;
+      let j = open + 2;
+      for (; j < source.length; j++) {
+        if (source[j] === '[') depth++;
+        else if (source[j] === ']') depth--;
+        else if (source[j] === '>' && depth <= 0) break;
+      }
+      i = j + 1;
+    } else if (source[open + 1] === '/') {
+      const end = source.indexOf('>', open);
+      if (end === -1) throw new Error('Unclosed end tag');
+      const name = source.slice(open + 2, end).trim();
+      if (stack.length === 1 || top.name !== name) throw new Error(`Unexpected </${name}>`);
+      stack.pop();
+      i = end + 1;
+    } else {
+      // Attribute values may contain '>', so find the tag end outside quotes
+      let j = open + 1;
+      let quote = '';
+      for (; j < source.length; j++) {
+        const c = source[j];
+        if (quote) {
+          if (c === quote) quote = '';
+        } else if (c === '"' || c === "'") {
+          quote = c;
+        } else if (c === '>') {
+          break;
+        }
+      }
+      if (j >= source.length) throw new Error('Unclosed tag');
+      const selfClosing = source[j - 1] === '/';
+      const body = source.slice(open + 1, selfClosing ? j - 1 : j);
+      const name = body.match(/^[^\s/>]+/)?.[0];
+      if (!name) throw new Error('Tag without a name');
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      for (const [, key, double, single] of body.slice(name.length).matchAll(ATTRIBUTE)) {
+        element.attributes[key] = decodeEntities(double ?? single);
+      }
+      top.children.push(element);
+      if (!selfClosing) stack.push(element);
+      i = j + 1;
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`<${stack[stack.length - 1].name}> is never closed`);
+  const documentElement = root.children[0];
+  if (!documentElement) throw new Error('The document is empty');
+  return documentElement;
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(c => c.name === name);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(c => c.name === name);
+}
+
+/** Trimmed text of the first child called `name`, if there is one. */
+export function childText(element: XmlElement, name: string): string | undefined {
+  return childElement(element, name)?.text.trim();
+}
+
+/** The first child called `name` read as a number, if it is one. */
+export function childNumber(element: XmlElement, name: string): number | undefined {
+  const text = childText(element, name);
+  if (text === undefined || text === '') return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
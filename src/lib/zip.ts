@@ -0,0 +1,81 @@
+// --- Reading files out of a zip archive (compressed MusicXML, .mxl) ---
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+const END_OF_DIRECTORY_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  encrypted: boolean;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/** Thrown for archives that are damaged or use what we can't unpack (e.g. encryption). */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+/** Lists the archive's files from its central directory. */
+export function readZipEntries(data: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(data);
+  // The end-of-directory record sits at the very end, before an optional comment
+  let end = -1;
+  const earliest = Math.max(0, data.byteLength - END_OF_DIRECTORY_LENGTH - MAX_COMMENT_LENGTH);
+  for (let i = data.byteLength - END_OF_DIRECTORY_LENGTH; i >= earliest; i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new ZipError("The archive has no zip directory; it may be cut off.");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.byteLength || view.getUint32(offset, true) !== DIRECTORY_ENTRY) {
+      throw new ZipError("The archive's directory is damaged.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(data, offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      encrypted: (view.getUint16(offset + 8, true) & 1) !== 0,
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** Unpacks one file; deflated entries go through the browser's DecompressionStream. */
+export async function readZipEntry(data: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+  if (entry.encrypted) throw new ZipError(`${entry.name} is encrypted.`);
+  const view = new DataView(data);
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.byteLength || view.getUint32(header, true) !== LOCAL_HEADER) {
+    throw new ZipError(`${entry.name} is damaged.`);
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  if (start + entry.compressedSize > data.byteLength) throw new ZipError(`${entry.name} is cut off.`);
+  const bytes = new Uint8Array(data, start, entry.compressedSize);
+
+  if (entry.method === STORED) return bytes.slice();
+  if (entry.method !== DEFLATED) throw new ZipError(`${entry.name} uses a compression method (${entry.method}) that can't be unpacked.`);
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -1,72 +1,369 @@
-import { useCallback, type ChangeEvent } from 'react'
+import { useCallback, useEffect, useMemo, useState, type ChangeEvent } from 'react'
 import { useNavigate } from 'react-router-dom'
 
+import {
+  addSongFile,
+  createPlaylist,
+  deletePlaylist,
+  deleteSong,
+  listPlaylists,
+  listPracticeSessions,
+  listSongs,
+  renameSong,
+  savePlaylist,
+  type Playlist,
+  type SongRecord,
+} from '../lib/songLibrary'
+import { midiToNoteName } from '../lib/noteNames'
+import { MidiFileError, type MidiDiagnostic } from '../lib/midiDiagnostics'
+import { SONG_FILE_ACCEPT } from '../lib/scoreImport'
+import { buildPlayerQuery, playerPath } from '../lib/playerUrl'
+import type { PracticeSession } from '../lib/practiceHistory'
+import { createQueue, loadQueue, queuedSongs, saveQueue } from '../lib/queue'
+import PlaylistSection from '../components/PlaylistSection'
+import PracticeDashboard from '../components/PracticeDashboard'
+
 type LibraryProps = {
-  selectedFile: File | null
-  onSelectFile: (file: File) => void
+  selectedSongId: string | null
+  onSelectSong: (songId: string) => void
+}
+
+// What was wrong with a file that couldn't be added
+type UploadProblem = {
+  fileName: string
+  diagnostics: MidiDiagnostic[]
+}
+
+type SortKey = 'added' | 'opened' | 'title' | 'duration'
+
+const SORTERS: Record<SortKey, (a: SongRecord, b: SongRecord) => number> = {
+  added: (a, b) => b.addedAt - a.addedAt,
+  opened: (a, b) => (b.lastOpenedAt ?? 0) - (a.lastOpenedAt ?? 0) || b.addedAt - a.addedAt,
+  title: (a, b) => a.title.localeCompare(b.title),
+  duration: (a, b) => a.duration - b.duration,
 }
 
-function Library({ selectedFile, onSelectFile }: LibraryProps) {
+function formatDuration(seconds: number) {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+function Library({ selectedSongId, onSelectSong }: LibraryProps) {
   const navigate = useNavigate()
+  const [songs, setSongs] = useState<SongRecord[]>([])
+  const [playlists, setPlaylists] = useState<Playlist[]>([])
+  const [sessions, setSessions] = useState<PracticeSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [uploadProblems, setUploadProblems] = useState<UploadProblem[]>([])
+  const [query, setQuery] = useState('')
+  const [sortKey, setSortKey] = useState<SortKey>('added')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+
+  const refresh = useCallback(() => {
+    return Promise.all([listSongs(), listPlaylists(), listPracticeSessions()])
+      .then(([list, lists, practice]) => {
+        setSongs(list)
+        setPlaylists(lists)
+        setSessions(practice)
+        setError(null)
+        setUploadProblems([])
+      })
+      .catch((e) => {
+        console.error('Failed to read library', e)
+        setError('Could not open the song library.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const startQueue = useCallback(
+    (songIds: string[], startId: string | null, source: string | null) => {
+      const queue = createQueue(songIds, startId, source, loadQueue())
+      saveQueue(queue)
+      const first = startId ?? queuedSongs(queue)[0]
+      onSelectSong(first)
+      navigate(playerPath(first))
+    },
+    [navigate, onSelectSong]
+  )
+
+  // Back to the last practice session's position, speed, loop, transposition & hidden tracks
+  const continuePractice = useCallback(
+    (session: PracticeSession) => {
+      onSelectSong(session.songId)
+      navigate({ pathname: playerPath(session.songId), search: buildPlayerQuery(session.resume).toString() })
+    },
+    [navigate, onSelectSong]
+  )
+
+  const visibleSongs = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return songs
+      .filter((s) => !needle || s.title.toLowerCase().includes(needle) || s.fileName.toLowerCase().includes(needle))
+      .sort(SORTERS[sortKey])
+  }, [songs, query, sortKey])
+
+  // A song opened from the list queues up the rest of the list, as shown
+  const openSong = useCallback(
+    (songId: string) => {
+      const ids = visibleSongs.map((s) => s.id)
+      startQueue(ids.includes(songId) ? ids : [songId], songId, null)
+    },
+    [startQueue, visibleSongs]
+  )
+
+  const playPlaylist = useCallback(
+    (playlist: Playlist) => {
+      const known = new Set(songs.map((s) => s.id))
+      const ids = playlist.songIds.filter((id) => known.has(id))
+      if (ids.length > 0) startQueue(ids, null, playlist.name)
+    },
+    [songs, startQueue]
+  )
+
+  const updatePlaylist = useCallback(
+    async (playlist: Playlist) => {
+      await savePlaylist(playlist)
+      refresh()
+    },
+    [refresh]
+  )
+
+  const addToPlaylist = useCallback(
+    (playlistId: string, songId: string) => {
+      const playlist = playlists.find((p) => p.id === playlistId)
+      if (playlist && !playlist.songIds.includes(songId)) {
+        updatePlaylist({ ...playlist, songIds: [...playlist.songIds, songId] })
+      }
+    },
+    [playlists, updatePlaylist]
+  )
 
   const handleFileChange = useCallback(
-    (event: ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0]
-      if (!file) return
-      onSelectFile(file)
-      navigate('/player')
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? [])
+      event.target.value = ''
+      if (files.length === 0) return
+
+      const added: SongRecord[] = []
+      const failed: UploadProblem[] = []
+      for (const file of files) {
+        try {
+          added.push(await addSongFile(file))
+        } catch (e) {
+          console.error('Failed to add song', e)
+          // Unplayable files say why, as the player would; anything else just fails
+          failed.push({ fileName: file.name, diagnostics: e instanceof MidiFileError ? e.diagnostics : [] })
+        }
+      }
+      await refresh()
+      if (failed.length > 0) {
+        setError(`Could not add ${failed.map((f) => f.fileName).join(', ')}.`)
+        setUploadProblems(failed.filter((f) => f.diagnostics.length > 0))
+      }
+
+      // A single upload goes straight to the player, like before
+      if (files.length === 1 && added.length === 1) openSong(added[0].id)
+    },
+    [openSong, refresh]
+  )
+
+  const handleDelete = useCallback(
+    async (song: SongRecord) => {
+      if (!window.confirm(`Delete "${song.title}" from your library?`)) return
+      await deleteSong(song.id)
+      refresh()
     },
-    [navigate, onSelectFile]
+    [refresh]
   )
 
+  const commitRename = useCallback(async () => {
+    if (!editingId) return
+    await renameSong(editingId, draftTitle)
+    setEditingId(null)
+    refresh()
+  }, [draftTitle, editingId, refresh])
+
   return (
     <div className="app">
       <header className="hero">
         <div>
           <p className="eyebrow">MIDI Piano Player</p>
-          <h1>Select a MIDI song to begin.</h1>
+          <h1>{songs.length > 0 ? 'Your song library.' : 'Select a song to begin.'}</h1>
           <p className="subtitle">
-            Pick a .mid or .midi file and jump straight into the playback view.
+            Add MIDI, MusicXML (.musicxml, .mxl) or ABC files once and they stay here, ready to open any time.
           </p>
         </div>
         <div className="controls">
           <label className="file-input pulse">
-            <input type="file" accept=".mid,.midi" onChange={handleFileChange} />
-            <span>{selectedFile?.name ?? 'Choose MIDI file'}</span>
+            <input type="file" accept={SONG_FILE_ACCEPT} multiple onChange={handleFileChange} />
+            <span>Add songs</span>
           </label>
           <button
             className="primary"
-            onClick={() => navigate('/player')}
-            disabled={!selectedFile}
+            onClick={() => navigate(selectedSongId ? playerPath(selectedSongId) : '/player')}
+            disabled={!selectedSongId && songs.length === 0}
           >
             Go to Player
           </button>
         </div>
       </header>
 
-      <section className="tutorial">
-        <div className="tutorial-step">
-          <span className="step-number">1</span>
-          <div>
-            <h3>Pick a song</h3>
-            <p>Upload a MIDI file from your computer.</p>
-          </div>
+      {error && (
+        <div className="library-error">
+          {error}
+          {uploadProblems.length > 0 && (
+            <ul className="library-diagnostics">
+              {uploadProblems.flatMap((problem) =>
+                problem.diagnostics.map((d, i) => (
+                  <li key={`${problem.fileName}-${d.code}-${i}`} className={d.severity}>
+                    {problem.fileName}: {d.message}
+                  </li>
+                ))
+              )}
+            </ul>
+          )}
         </div>
-        <div className="tutorial-step">
-          <span className="step-number">2</span>
-          <div>
-            <h3>Jump into the player</h3>
-            <p>Open the player view to hear and see the notes.</p>
-          </div>
-        </div>
-        <div className="tutorial-step">
-          <span className="step-number">3</span>
-          <div>
-            <h3>Learn with visuals</h3>
-            <p>Follow falling notes and key highlights as you listen.</p>
+      )}
+
+      {songs.length > 0 && sessions.length > 0 && (
+        <PracticeDashboard sessions={sessions} songs={songs} onContinue={continuePractice} />
+      )}
+
+      {songs.length > 0 && (
+        <PlaylistSection
+          playlists={playlists}
+          songs={songs}
+          onPlay={playPlaylist}
+          onCreate={(name) => createPlaylist(name).then(refresh)}
+          onChange={updatePlaylist}
+          onDelete={(playlist) => deletePlaylist(playlist.id).then(refresh)}
+        />
+      )}
+
+      {songs.length > 0 ? (
+        <section className="library">
+          <div className="library-toolbar">
+            <input
+              type="search"
+              className="library-search"
+              placeholder="Search songs"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <label className="library-sort">
+              <span>Sort by</span>
+              <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)}>
+                <option value="added">Date added</option>
+                <option value="opened">Recently played</option>
+                <option value="title">Title</option>
+                <option value="duration">Duration</option>
+              </select>
+            </label>
           </div>
-        </div>
-      </section>
+
+          {visibleSongs.length === 0 && <p className="library-empty">No songs match “{query}”.</p>}
+
+          <ul className="song-list">
+            {visibleSongs.map((song) => (
+              <li key={song.id} className={`song-row ${song.id === selectedSongId ? 'selected' : ''}`}>
+                <div className="song-row-main">
+                  {editingId === song.id ? (
+                    <input
+                      className="song-rename"
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename()
+                        if (e.key === 'Escape') setEditingId(null)
+                      }}
+                    />
+                  ) : (
+                    <button className="song-title-btn" onClick={() => openSong(song.id)}>
+                      {song.title}
+                    </button>
+                  )}
+                  <span className="song-row-meta">
+                    {formatDuration(song.duration)}
+                    {' · '}
+                    {song.trackCount} {song.trackCount === 1 ? 'track' : 'tracks'}
+                    {song.noteRange && ` · ${midiToNoteName(song.noteRange.min)}–${midiToNoteName(song.noteRange.max)}`}
+                    {' · '}
+                    Added {new Date(song.addedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="song-row-actions">
+                  <button className="primary" onClick={() => openSong(song.id)}>
+                    Open
+                  </button>
+                  {playlists.length > 0 && (
+                    <select
+                      className="song-add-to"
+                      value=""
+                      onChange={(e) => addToPlaylist(e.target.value, song.id)}
+                      title="Add to playlist"
+                    >
+                      <option value="" disabled>
+                        Add to playlist…
+                      </option>
+                      {playlists.map((playlist) => (
+                        <option key={playlist.id} value={playlist.id} disabled={playlist.songIds.includes(song.id)}>
+                          {playlist.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditingId(song.id)
+                      setDraftTitle(song.title)
+                    }}
+                  >
+                    Rename
+                  </button>
+                  <button className="danger" onClick={() => handleDelete(song)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : (
+        !isLoading && (
+          <section className="tutorial">
+            <div className="tutorial-step">
+              <span className="step-number">1</span>
+              <div>
+                <h3>Pick a song</h3>
+                <p>Upload a MIDI, MusicXML or ABC file from your computer.</p>
+              </div>
+            </div>
+            <div className="tutorial-step">
+              <span className="step-number">2</span>
+              <div>
+                <h3>Jump into the player</h3>
+                <p>Open the player view to hear and see the notes.</p>
+              </div>
+            </div>
+            <div className="tutorial-step">
+              <span className="step-number">3</span>
+              <div>
+                <h3>Learn with visuals</h3>
+                <p>Follow falling notes and key highlights as you listen.</p>
+              </div>
+            </div>
+          </section>
+        )
+      )}
     </div>
   )
 }
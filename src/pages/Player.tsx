@@ -1,26 +1,179 @@
 import React, { useEffect, useRef, useState } from 'react';
-// import { useNavigate } from 'react-router-dom';
-import { Midi } from '@tonejs/midi';
+import { useLocation, useNavigate } from 'react-router-dom';
 import * as Tone from 'tone';
-import { Piano } from 'react-piano';
+import { ControlledPiano } from 'react-piano';
 import 'react-piano/dist/styles.css';
 import './Player.css';
+import type { NoteData } from '../lib/types';
+import { buildChords, findChordIndex, isChordSatisfied, type Chord } from '../lib/practice';
+import { useMidiInput } from '../hooks/useMidiInput';
+import MidiInputControl from '../components/MidiInputControl';
+import TrackPanel, { type InstrumentOption } from '../components/TrackPanel';
+import LoopPanel from '../components/LoopPanel';
+import ExportPanel from '../components/ExportPanel';
+import TakesPanel from '../components/TakesPanel';
+import ScorePanel from '../components/ScorePanel';
+import ScoreSummary from '../components/ScoreSummary';
+import LabelsPanel from '../components/LabelsPanel';
+import MetronomePanel from '../components/MetronomePanel';
+import DynamicsPanel from '../components/DynamicsPanel';
+import QueuePanel from '../components/QueuePanel';
+import KeyboardPanel from '../components/KeyboardPanel';
+import HandsPanel from '../components/HandsPanel';
+import StaffView, { type StaffViewMode } from '../components/StaffView';
+import {
+  applyTrackMix,
+  createTrackVoice,
+  defaultTrackMix,
+  disposeTrackVoices,
+  setVoiceInstrument,
+  type TrackInfo,
+  type TrackMix,
+  type TrackVoice,
+} from '../lib/trackMixer';
+import {
+  beatsBetween,
+  buildTempoMap,
+  formatBarBeat,
+  meterAt,
+  secondsToTicks,
+  tempoAt,
+  ticksToBarBeat,
+  ticksToSeconds,
+  type TempoMap,
+} from '../lib/tempoMap';
+import {
+  DEFAULT_SPEED_TRAINER,
+  applyTransportLoop,
+  makeLoopRegion,
+  nextTrainerSpeed,
+  type LoopRegion,
+  type SpeedTrainer,
+} from '../lib/loop';
+import { loadSongSettings, saveSongSettings } from '../lib/songSettings';
+import { MAX_SPEED, MIN_SPEED, buildPlayerQuery, parsePlayerQuery, playerPath } from '../lib/playerUrl';
+import {
+  EMPTY_PEDALS,
+  spanAt,
+  type PedalName,
+  type Pedals,
+} from '../lib/pedals';
+import {
+  bankForProgram,
+  createInstrument,
+  disposeKit,
+  loadBanks,
+  loadInstrumentManifest,
+  type Instrument,
+  type InstrumentKit,
+} from '../lib/instruments';
+import { scheduleNotes, scheduleSong } from '../lib/scheduler';
+import { renderSongToWav } from '../lib/offlineRender';
+import {
+  addSongFile,
+  createId,
+  deleteTake,
+  getLastOpenedSong,
+  getSong,
+  getSongData,
+  listSongs,
+  listTakes,
+  markSongOpened,
+  savePracticeSession,
+  saveTake,
+} from '../lib/songLibrary';
+import {
+  notePracticeLoop,
+  notePracticeScore,
+  notePracticeSpeed,
+  practiceSnapshot,
+  setPracticePlaying,
+  startPractice,
+  type PracticeTracker,
+} from '../lib/practiceHistory';
+import { loadQueue, queuedAfter, saveQueue, setShuffle, type PlayQueue, type RepeatMode } from '../lib/queue';
+import {
+  DEFAULT_PIANO_OCTAVE,
+  MAX_PIANO_OCTAVE,
+  MIN_PIANO_OCTAVE,
+  PIANO_KEYS,
+  REPEATABLE_ACTIONS,
+  isTypingTarget,
+  keyLabel,
+  loadShortcuts,
+  pianoKeyMidi,
+  saveShortcuts,
+  shortcutFor,
+  type ShortcutAction,
+  type Shortcuts,
+} from '../lib/keybindings';
+import { suggestFingering } from '../lib/fingering';
+import { defaultHandSetup, handOf, isHandHeard, isHandPracticed, isHandShown, type Hand, type HandSetup } from '../lib/hands';
+import { buildGrandStaff } from '../lib/staff';
+import {
+  TAKE_COLOR,
+  recordNoteOff,
+  recordNoteOn,
+  startRecording,
+  stopRecording,
+  takeToMidi,
+  takeToNotes,
+  type Recording,
+  type Take,
+} from '../lib/recording';
+import { downloadBlob, safeFileName } from '../lib/download';
+import { keyAt, noteLabel, type KeySignature, type LabelMode } from '../lib/noteLabels';
+import type { SectionMarker } from '../lib/markers';
+import { loadSong, overallProgress } from '../lib/songLoader';
+import { MidiFileError, type MidiDiagnostic } from '../lib/midiDiagnostics';
+import { SONG_FILE_ACCEPT } from '../lib/scoreImport';
+import { EMPTY_NOTE_BUFFER, buildNoteBuffer, forEachNoteIn, type NoteBuffer } from '../lib/noteBuffer';
+import { buildKeyLayout, drawDrumLane } from '../lib/waterfall';
+import { createWaterfallRenderer, type WaterfallRenderer } from '../lib/waterfallRenderer';
+import { drumLanes as drumLanesFor, drumName, drumShortName } from '../lib/drums';
+import { VELOCITY_CURVES, dynamicsProfile, type VelocityCurve } from '../lib/dynamics';
+import { NOTE_NAMES } from '../lib/noteNames';
+import {
+  DEFAULT_PIANO_RANGE,
+  MAX_OCTAVE_SHIFT,
+  MAX_TRANSPOSE,
+  formatSemitones,
+  keyboardRangeFor,
+  shiftNotes,
+} from '../lib/transpose';
+import {
+  DEFAULT_SCORING_WINDOWS,
+  buildScoreReport,
+  scorePlayedNote,
+  startScoring,
+  type ScoreReport,
+  type ScoringSession,
+  type ScoringWindows,
+} from '../lib/scoring';
+import {
+  DEFAULT_METRONOME,
+  countInBeats,
+  createMetronomeVoice,
+  disposeMetronomeVoice,
+  playClick,
+  scheduleMetronome,
+  setMetronomeVolume,
+  type MetronomeSettings,
+  type MetronomeVoice,
+} from '../lib/metronome';
 
 // --- Types ---
 interface PlayerProps {
-  file: File | null;
-  onSelectFile: (file: File) => void;
+  songId: string | null;
 }
 
-interface NoteData {
-  midi: number;
-  name: string;
-  time: number;
-  ticks: number;     // Added
-  duration: number;
-  durationTicks: number; // Added
-  velocity: number;
-  trackIndex: number; 
+// Where a section marker's label was drawn, so a click on it can seek
+interface MarkerHit {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  ticks: number;
 }
 
 interface KeyConfig {
@@ -34,9 +187,44 @@ interface KeyConfig {
 
 // --- Constants ---
 const NOTES_VISIBLE_DURATION = 3.0; 
-const DEFAULT_PIANO_RANGE = { min: 21, max: 108 };
-const STORAGE_KEY_DATA = 'midi_data_b64';
-const STORAGE_KEY_NAME = 'midi_name';
+const STORAGE_KEY_MONITOR = 'midi_input_monitor';
+const STORAGE_KEY_TIME_MODE = 'time_display_mode';
+const STORAGE_KEY_RECORD_WITH_SONG = 'record_with_song';
+const STORAGE_KEY_SCORING_WINDOWS = 'scoring_windows';
+const STORAGE_KEY_KEY_LABELS = 'key_label_mode';
+const STORAGE_KEY_NOTE_LABELS = 'note_label_mode';
+const STORAGE_KEY_METRONOME = 'metronome';
+const STORAGE_KEY_VELOCITY_CURVE = 'velocity_curve';
+const STORAGE_KEY_DYNAMICS_GRAPH = 'dynamics_graph';
+const STORAGE_KEY_KEYBOARD_PIANO = 'keyboard_piano';
+const STORAGE_KEY_PIANO_OCTAVE = 'keyboard_piano_octave';
+const STORAGE_KEY_STAFF_VIEW = 'staff_view';
+// Falling notes shorter than this (px) are too small to carry a label
+const MIN_LABEL_HEIGHT = 14;
+// On-screen keys have no velocity of their own
+const ON_SCREEN_VELOCITY = 0.8;
+const WRONG_NOTE_FLASH_MS = 600;
+const PEDAL_LANE_WIDTH = 5;
+const BAR_LINE_COLOR = 'rgba(148, 163, 184, 0.22)';
+const BEAT_LINE_COLOR = 'rgba(148, 163, 184, 0.08)';
+const BAR_NUMBER_COLOR = 'rgba(148, 163, 184, 0.55)';
+const MARKER_COLOR = '#2dd4bf';
+const MARKER_LABEL_X = 28; // Clear of the bar numbers
+const DRUM_LANE_WIDTH = 34; // px per drum column
+const DRUM_HIT_DIVISION = 4; // A drum pad stays lit for a sixteenth (ppq / 4)
+const DYNAMICS_BUCKETS = 100; // Columns in the dynamics graph
+const PEDAL_NAMES: PedalName[] = ['sustain', 'sostenuto', 'soft'];
+// The sheet-music button steps through these
+const STAFF_VIEW_MODES: { value: StaffViewMode; title: string }[] = [
+  { value: 'off', title: 'Sheet music: off (click to show the staff above the notes)' },
+  { value: 'above', title: 'Sheet music: above the notes (click to show it in their place)' },
+  { value: 'replace', title: 'Sheet music: in place of the notes (click to hide it)' },
+];
+const PEDAL_COLORS: Record<PedalName, string> = {
+  sustain: 'rgba(148, 163, 184, 0.45)',
+  sostenuto: 'rgba(45, 212, 191, 0.45)',
+  soft: 'rgba(244, 114, 182, 0.45)',
+};
 
 // --- React Piano Config ---
 // Matches react-piano/src/MidiNumbers.js & Keyboard.js
@@ -56,27 +244,6 @@ const PITCH_POSITIONS: Record<number, number> = {
 };
 const ACCIDENTAL_WIDTH_RATIO = 0.65;
 
-// --- Helpers for Storage ---
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return window.btoa(binary);
-}
-
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binary_string = window.atob(base64);
-  const len = binary_string.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binary_string.charCodeAt(i);
-  }
-  return bytes.buffer;
-}
-
 // --- Helper Functions ---
 function getMidiAttribute(midiNumber: number) {
    const offset = midiNumber - 12; // MIDI 12 is C0 in react-piano world (usually)
@@ -154,6 +321,47 @@ const generateKeyboardConfig = (min: number, max: number): KeyConfig[] => {
   return config;
 };
 
+function sameSet<T>(a: Set<T>, b: Set<T>): boolean {
+  if (a.size !== b.size) return false;
+  for (const item of a) if (!b.has(item)) return false;
+  return true;
+}
+
+function sameMap<K, V>(a: Map<K, V>, b: Map<K, V>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [key, value] of a) if (b.get(key) !== value) return false;
+  return true;
+}
+
+// --- Transport Helpers ---
+// Tone's BPM is always "tempo in force at the playhead" x playback speed;
+// tempo changes further on are automated by callbacks on the Transport.
+function setTransportTempo(map: TempoMap, ticks: number, speed: number) {
+  Tone.Transport.bpm.value = tempoAt(map, ticks) * speed;
+}
+
+function seekTransportToSeconds(map: TempoMap, seconds: number, speed: number) {
+  const ticks = Math.floor(secondsToTicks(map, Math.max(0, seconds)));
+  Tone.Transport.ticks = ticks;
+  setTransportTempo(map, ticks, speed);
+}
+
+// Restarts the HUD beat pulse; the accent marks a downbeat
+function flashBeat(el: HTMLElement | null, beat: number, accent: boolean) {
+  if (!el) return;
+  el.textContent = String(beat);
+  el.classList.remove('pulse', 'accent');
+  void el.offsetWidth; // Reflow so the animation starts over
+  el.classList.add('pulse');
+  if (accent) el.classList.add('accent');
+}
+
+function formatTime(s: number) {
+  const mins = Math.floor(s / 60);
+  const secs = Math.floor(s % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
 function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
   if (w < 2 * r) r = w / 2;
   if (h < 2 * r) r = h / 2;
@@ -165,8 +373,9 @@ function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: numbe
   ctx.closePath();
 }
 
-const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
-  // const navigate = useNavigate();
+const Player: React.FC<PlayerProps> = ({ songId }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // State
@@ -177,12 +386,126 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
   const [activeKeys, setActiveKeys] = useState<Set<number>>(new Set());
   const [songTitle, setSongTitle] = useState("Loading...");
   const [loadingError, setLoadingError] = useState<string | null>(null);
+  const [loadDiagnostics, setLoadDiagnostics] = useState<MidiDiagnostic[]>([]); // Why the file failed
+  const [loadWarnings, setLoadWarnings] = useState<MidiDiagnostic[]>([]);
+  const [loadProgress, setLoadProgress] = useState<number | null>(null); // Parsing, 0..1
   const [hasUserStarted, setHasUserStarted] = useState(false);
+  const [engineReady, setEngineReady] = useState(false); // Samples & keyboard voice loaded
   const [containerWidth, setContainerWidth] = useState(1000); // Default fallback
   const [activeRange, setActiveRange] = useState(DEFAULT_PIANO_RANGE);
+  const [transpose, setTranspose] = useState(0);
+  const [foldedNotes, setFoldedNotes] = useState(0); // Notes shifted off the keyboard
   const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
-  const [baseBpm, setBaseBpm] = useState(120);
   const [totalTicks, setTotalTicks] = useState(0);
+  const [tempoMap, setTempoMap] = useState<TempoMap>(() => buildTempoMap(192, [], []));
+  const [timeMode, setTimeMode] = useState<'clock' | 'bars'>(
+    () => localStorage.getItem(STORAGE_KEY_TIME_MODE) === 'bars' ? 'bars' : 'clock'
+  );
+
+  // Practice / external input state
+  const [waitMode, setWaitMode] = useState(false);
+  const [waitingChord, setWaitingChord] = useState<Chord | null>(null);
+  const [inputKeys, setInputKeys] = useState<Set<number>>(new Set());
+  const [wrongKeys, setWrongKeys] = useState<Set<number>>(new Set());
+  const [monitorInput, setMonitorInput] = useState(() => localStorage.getItem(STORAGE_KEY_MONITOR) !== 'false');
+
+  // Mixer state
+  const [tracks, setTracks] = useState<TrackInfo[]>([]);
+  const [trackMixes, setTrackMixes] = useState<Record<number, TrackMix>>({});
+  const [showTrackPanel, setShowTrackPanel] = useState(false);
+  const [instrumentBanks, setInstrumentBanks] = useState<InstrumentOption[]>([]);
+
+  // A–B loop & speed trainer state
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [loopDraftStart, setLoopDraftStart] = useState<number | null>(null);
+  const [trainer, setTrainer] = useState<SpeedTrainer>(DEFAULT_SPEED_TRAINER);
+  const [cleanReps, setCleanReps] = useState(0);
+  const [showLoopPanel, setShowLoopPanel] = useState(false);
+
+  // WAV export
+  const [showExportPanel, setShowExportPanel] = useState(false);
+
+  // Recorded takes
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [activeTakeId, setActiveTakeId] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordWithSong, setRecordWithSong] = useState(() => localStorage.getItem(STORAGE_KEY_RECORD_WITH_SONG) !== 'false');
+  const [takeAudible, setTakeAudible] = useState(true);
+  const [showTakesPanel, setShowTakesPanel] = useState(false);
+
+  // Scoring
+  const [scoringWindows, setScoringWindows] = useState<ScoringWindows>(() => {
+    try {
+      return { ...DEFAULT_SCORING_WINDOWS, ...JSON.parse(localStorage.getItem(STORAGE_KEY_SCORING_WINDOWS) || '{}') };
+    } catch {
+      return DEFAULT_SCORING_WINDOWS;
+    }
+  });
+  const [isScoring, setIsScoring] = useState(false);
+  const [liveScore, setLiveScore] = useState({ hits: 0, extras: 0 });
+  const [scoreReport, setScoreReport] = useState<ScoreReport | null>(null);
+  const [showScoreReport, setShowScoreReport] = useState(false);
+  const [showScorePanel, setShowScorePanel] = useState(false);
+
+  // Key & falling-note labels
+  const [keyLabelMode, setKeyLabelMode] = useState<LabelMode>(
+    () => (localStorage.getItem(STORAGE_KEY_KEY_LABELS) as LabelMode | null) ?? 'none'
+  );
+  const [noteLabelMode, setNoteLabelMode] = useState<LabelMode>(
+    () => (localStorage.getItem(STORAGE_KEY_NOTE_LABELS) as LabelMode | null) ?? 'none'
+  );
+  const [currentKey, setCurrentKey] = useState<KeySignature>(() => keyAt([], 0));
+  const [activeFingers, setActiveFingers] = useState<Map<number, number>>(new Map());
+  const [showLabelsPanel, setShowLabelsPanel] = useState(false);
+  const [sectionMarkers, setSectionMarkers] = useState<SectionMarker[]>([]);
+  const [drumLanes, setDrumLanes] = useState<number[]>([]); // Drum pitch per percussion lane column
+  const [activeDrums, setActiveDrums] = useState<Set<number>>(new Set());
+
+  // Metronome State
+  const [metronome, setMetronome] = useState<MetronomeSettings>(() => {
+    try {
+      return { ...DEFAULT_METRONOME, ...JSON.parse(localStorage.getItem(STORAGE_KEY_METRONOME) || '{}') };
+    } catch {
+      return DEFAULT_METRONOME;
+    }
+  });
+  const [countingIn, setCountingIn] = useState(false);
+  const [showMetronomePanel, setShowMetronomePanel] = useState(false);
+
+  // Dynamics State
+  const [velocityCurve, setVelocityCurve] = useState<VelocityCurve>(() => {
+    const saved = localStorage.getItem(STORAGE_KEY_VELOCITY_CURVE);
+    return VELOCITY_CURVES.find(c => c.value === saved)?.value ?? 'natural';
+  });
+  const [showDynamicsGraph, setShowDynamicsGraph] = useState(() => localStorage.getItem(STORAGE_KEY_DYNAMICS_GRAPH) === 'true');
+  const [dynamics, setDynamics] = useState<number[]>([]); // Mean velocity per slice of the song
+  const [showDynamicsPanel, setShowDynamicsPanel] = useState(false);
+
+  // Queue State
+  const [queue, setQueue] = useState<PlayQueue>(loadQueue);
+  const [queueTitles, setQueueTitles] = useState<Record<string, string>>({}); // songId -> title
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+
+  // Computer Keyboard State
+  const [shortcuts, setShortcuts] = useState<Shortcuts>(loadShortcuts);
+  const [keyboardPiano, setKeyboardPiano] = useState(() => localStorage.getItem(STORAGE_KEY_KEYBOARD_PIANO) === 'true');
+  const [pianoOctave, setPianoOctave] = useState(() => {
+    const saved = parseInt(localStorage.getItem(STORAGE_KEY_PIANO_OCTAVE) || '', 10);
+    return saved >= MIN_PIANO_OCTAVE && saved <= MAX_PIANO_OCTAVE ? saved : DEFAULT_PIANO_OCTAVE;
+  });
+  const [showKeyboardPanel, setShowKeyboardPanel] = useState(false);
+
+  // Hands State
+  const [hands, setHands] = useState<HandSetup>(() => defaultHandSetup([]));
+  const [showHandsPanel, setShowHandsPanel] = useState(false);
+
+  // Sheet Music State
+  const [staffView, setStaffView] = useState<StaffViewMode>(
+    () => STAFF_VIEW_MODES.find(m => m.value === localStorage.getItem(STORAGE_KEY_STAFF_VIEW))?.value ?? 'off'
+  );
+  const [staffNotes, setStaffNotes] = useState<NoteData[]>([]); // As played, drums left out
+  const [keySignatures, setKeySignatures] = useState<KeySignature[]>([]);
 
   // Memoize keyboard config to ensure it's stable and correct
   const keyboardConfig = React.useMemo(() => generateKeyboardConfig(activeRange.min, activeRange.max), [activeRange]);
@@ -194,21 +517,263 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
       return map;
   }, [keyboardConfig]);
 
+  // Laid out only while it's on screen; follows transposition, hidden tracks & hands
+  const grandStaff = React.useMemo(() => {
+    if (staffView === 'off' || !isReady) return null;
+    return buildGrandStaff(staffNotes, {
+      tempoMap,
+      songTicks: totalTicks,
+      keySignatures,
+      transpose,
+      hands,
+      hiddenTracks: Object.entries(trackMixes).filter(([, mix]) => mix.hidden).map(([index]) => Number(index)),
+    });
+  }, [staffView, isReady, staffNotes, tempoMap, totalTicks, keySignatures, transpose, hands, trackMixes]);
+
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const waterfallRef = useRef<HTMLDivElement>(null);
   
-  const notesRef = useRef<NoteData[]>([]);
+  const sourceNotesRef = useRef<NoteData[]>([]); // As written in the file
+  const notesRef = useRef<NoteData[]>([]); // As played: transposed & octave-shifted
+  const pianoNotesRef = useRef<NoteData[]>([]); // notesRef without the drum tracks
+  const noteBufferRef = useRef<NoteBuffer>(EMPTY_NOTE_BUFFER); // pianoNotesRef, packed & time-indexed
+  const drumBufferRef = useRef<NoteBuffer>(EMPTY_NOTE_BUFFER); // Drum-track notes, for the percussion lane
+  const drumLanesRef = useRef<number[]>([]);
+  const drumCanvasRef = useRef<HTMLCanvasElement>(null);
+  const activeDrumsRef = useRef<Set<number>>(new Set());
+  const waterfallRendererRef = useRef<WaterfallRenderer | null>(null);
+  const transposeRef = useRef(0);
+  const rebuildScheduleRef = useRef<() => void>(() => {});
+  const keySignaturesRef = useRef<KeySignature[]>([]);
+  const sectionMarkersRef = useRef<SectionMarker[]>([]);
+  const markerHitsRef = useRef<MarkerHit[]>([]); // Labels on the last frame
+  const currentKeyRef = useRef<KeySignature>(currentKey);
+  const noteLabelModeRef = useRef<LabelMode>(noteLabelMode);
   const activeKeysRef = useRef<Set<number>>(new Set());
-  const samplerRef = useRef<Tone.Sampler | null>(null);
+  const activeFingersRef = useRef<Map<number, number>>(new Map());
+  const samplerRef = useRef<Instrument | null>(null); // Manual / input notes
+  const kitRef = useRef<InstrumentKit | null>(null); // Loaded instrument banks
+  const instrumentChangeRef = useRef(0); // Latest override request, per any track
+  const voicesRef = useRef<Map<number, TrackVoice>>(new Map()); // trackIndex -> voice
+  const trackMixesRef = useRef<Record<number, TrackMix>>({});
+  const pedalsRef = useRef<Pedals>(EMPTY_PEDALS); // All tracks merged, for display
+  const pedalIndicatorRef = useRef<HTMLDivElement>(null);
+  const recordingRef = useRef<Recording | null>(null);
+  const scoringRef = useRef<ScoringSession | null>(null);
+  const scoringEndRef = useRef(0); // Furthest tick the scored run reached
+  const takeNotesRef = useRef<NoteData[]>([]); // Shown take, sorted by ticks
+  const takeEventIdsRef = useRef<number[]>([]);
+  const takeAudibleRef = useRef(true);
+  const metronomeRef = useRef<MetronomeSettings>(metronome);
+  const velocityCurveRef = useRef<VelocityCurve>(velocityCurve);
+  const metronomeVoiceRef = useRef<MetronomeVoice | null>(null);
+  const countingInRef = useRef(false); // Transport held for a count-in
+  const countInTimersRef = useRef<number[]>([]); // Context timeouts of a running count-in
+  const beatPulseRef = useRef<HTMLSpanElement>(null);
   const animationFrameRef = useRef<number>(0);
-  const searchIndexRef = useRef<number>(0); // Optimization for loop start
   const lastTimeRef = useRef<number>(0); // Track time to detect seeks
   const scrubberRef = useRef<HTMLInputElement>(null);
   const timeDisplayRef = useRef<HTMLSpanElement>(null);
+  const tempoMapRef = useRef<TempoMap>(tempoMap);
+  const playbackSpeedRef = useRef(1.0);
+  const timeModeRef = useRef(timeMode);
+
+  // Loop refs
+  const songKeyRef = useRef<string>('');
+  const loopRegionRef = useRef<LoopRegion | null>(null);
+  const loopDraftStartRef = useRef<number | null>(null);
+  const trainerRef = useRef<SpeedTrainer>(DEFAULT_SPEED_TRAINER);
+  const cleanRepsRef = useRef(0);
+  const repErrorsRef = useRef(0); // Wrong notes in the current repetition
+  const loopRepeatRef = useRef<() => void>(() => {});
+  const startPlaybackRef = useRef<() => void>(() => {}); // Latest startPlayback, for listeners & keys
+  const songEndRef = useRef<() => void>(() => {}); // Latest handleSongEnd, for the Transport
+  const queueRef = useRef<PlayQueue>(queue);
+  const autoplayRef = useRef(false); // Start the next song as soon as it's loaded
+  const computerKeyRef = useRef<(e: Event) => void>(() => {}); // Latest handleComputerKey
+  const practiceRef = useRef<PracticeTracker | null>(null); // This sitting with the song, for the practice history
+  const savePracticeRef = useRef<(end: boolean) => void>(() => {}); // Latest savePractice
+  const heldPianoKeysRef = useRef<Map<string, number>>(new Map()); // Key code -> note it started
+  const heldScreenKeysRef = useRef<Set<number>>(new Set()); // On-screen keys pressed with the mouse or touch
+  const handsRef = useRef<HandSetup>(hands); // Read by the schedule, render loop & practice modes
   const lastClickTimeRef = useRef<number>(0);
 
+  // Wait-mode refs (read from the render loop & MIDI callbacks without re-binding)
+  const waitModeRef = useRef(false);
+  const monitorInputRef = useRef(monitorInput);
+  const chordsRef = useRef<Chord[]>([]);
+  const chordIndexRef = useRef(0);
+  const waitingRef = useRef(false);
+  const struckRef = useRef<Set<number>>(new Set());
+  const wrongNotesRef = useRef<Map<number, number>>(new Map()); // midi -> flagged at (ms)
+
+  // --- Practice Helpers ---
+  const resumeFromWait = () => {
+    waitingRef.current = false;
+    setWaitingChord(null);
+    struckRef.current = new Set();
+    chordIndexRef.current++;
+    Tone.Transport.start();
+  };
+
+  // Re-aim the next wait point after any jump in the transport
+  const syncPracticeToTicks = (ticks: number) => {
+    chordIndexRef.current = findChordIndex(chordsRef.current, ticks);
+    struckRef.current = new Set();
+    if (waitingRef.current) {
+      waitingRef.current = false;
+      setWaitingChord(null);
+      Tone.Transport.start();
+    }
+  };
+
+  const flagWrongNote = (midi: number) => {
+    repErrorsRef.current++;
+    wrongNotesRef.current.set(midi, performance.now());
+    setWrongKeys(prev => new Set(prev).add(midi));
+    setTimeout(() => {
+      setWrongKeys(prev => {
+        const s = new Set(prev);
+        s.delete(midi);
+        return s;
+      });
+    }, WRONG_NOTE_FLASH_MS);
+  };
+
+  const handleInputNoteOn = (midi: number, velocity: number) => {
+    if (recordingRef.current) recordNoteOn(recordingRef.current, midi, velocity, Tone.Transport.ticks);
+    scoreNote(midi, velocity);
+    setInputKeys(prev => new Set(prev).add(midi));
+    if (monitorInputRef.current && samplerRef.current) {
+      const noteName = Tone.Frequency(midi, "midi").toNote();
+      samplerRef.current.triggerAttack(noteName, Tone.now(), velocity);
+    }
+
+    if (!waitModeRef.current) return;
+    const chord = chordsRef.current[chordIndexRef.current];
+    if (!chord || !chord.pitches.includes(midi)) {
+      flagWrongNote(midi);
+      return;
+    }
+    struckRef.current.add(midi);
+    if (waitingRef.current && isChordSatisfied(chord, struckRef.current)) {
+      resumeFromWait();
+    }
+  };
+
+  const handleInputNoteOff = (midi: number) => {
+    if (recordingRef.current) recordNoteOff(recordingRef.current, midi, Tone.Transport.ticks);
+    setInputKeys(prev => {
+      const s = new Set(prev);
+      s.delete(midi);
+      return s;
+    });
+    if (monitorInputRef.current && samplerRef.current) {
+      const noteName = Tone.Frequency(midi, "midi").toNote();
+      samplerRef.current.triggerRelease(noteName, Tone.now());
+    }
+  };
+
+  // The on-screen keyboard is always heard: clicking a key is asking for its sound
+  const pressScreenKey = (midi: number) => {
+    if (heldScreenKeysRef.current.has(midi)) return;
+    heldScreenKeysRef.current.add(midi);
+    if (recordingRef.current) recordNoteOn(recordingRef.current, midi, ON_SCREEN_VELOCITY, Tone.Transport.ticks);
+    scoreNote(midi, ON_SCREEN_VELOCITY);
+    setInputKeys(prev => new Set(prev).add(midi));
+    samplerRef.current?.triggerAttack(Tone.Frequency(midi, "midi").toNote(), Tone.now(), ON_SCREEN_VELOCITY);
+  };
+
+  // Also called as the pointer leaves a key, pressed or not
+  const releaseScreenKey = (midi: number) => {
+    if (!heldScreenKeysRef.current.delete(midi)) return;
+    if (recordingRef.current) recordNoteOff(recordingRef.current, midi, Tone.Transport.ticks);
+    setInputKeys(prev => {
+      const s = new Set(prev);
+      s.delete(midi);
+      return s;
+    });
+    samplerRef.current?.triggerRelease(Tone.Frequency(midi, "midi").toNote(), Tone.now());
+  };
+
+  const midiInput = useMidiInput({ onNoteOn: handleInputNoteOn, onNoteOff: handleInputNoteOff });
+
+  const toggleWaitMode = () => {
+    const next = !waitModeRef.current;
+    waitModeRef.current = next;
+    setWaitMode(next);
+    syncPracticeToTicks(Tone.Transport.ticks);
+  };
+
+  const toggleMonitorInput = () => {
+    const next = !monitorInputRef.current;
+    monitorInputRef.current = next;
+    setMonitorInput(next);
+    localStorage.setItem(STORAGE_KEY_MONITOR, String(next));
+  };
+
+  // --- Mixer ---
+  // Applied straight to the track's channel strip; the Transport schedule is untouched
+  const updateTrackMix = (trackIndex: number, patch: Partial<TrackMix>) => {
+    const current = trackMixesRef.current[trackIndex];
+    if (!current) return;
+    const next = { ...trackMixesRef.current, [trackIndex]: { ...current, ...patch } };
+    trackMixesRef.current = next;
+    setTrackMixes(next);
+    const voice = voicesRef.current.get(trackIndex);
+    if (voice) applyTrackMix(voice, next[trackIndex]);
+
+    if (patch.instrument && patch.instrument !== current.instrument) {
+      changeTrackInstrument(trackIndex, patch.instrument);
+    }
+    if (patch.octave !== undefined && patch.octave !== current.octave) {
+      const octaves: Record<number, number> = {};
+      Object.entries(next).forEach(([index, mix]) => { if (mix.octave) octaves[Number(index)] = mix.octave; });
+      if (songKeyRef.current) saveSongSettings(songKeyRef.current, { octaves });
+      rebuildPlayback();
+    }
+  };
+
+  // --- Transposition ---
+  // Re-derives the played notes and the whole schedule; the shown take is scheduled again after the Transport's cleared
+  const rebuildPlayback = () => {
+    rebuildScheduleRef.current();
+    const take = takes.find(t => t.id === activeTakeId);
+    if (take) showTake(take);
+  };
+
+  const changeTranspose = (semitones: number) => {
+    const next = Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, Math.round(semitones)));
+    if (next === transposeRef.current) return;
+    transposeRef.current = next;
+    setTranspose(next);
+    if (songKeyRef.current) saveSongSettings(songKeyRef.current, { transpose: next });
+    rebuildPlayback();
+  };
+
+  const changeTrackInstrument = async (trackIndex: number, bankId: string) => {
+    const kit = kitRef.current;
+    if (!kit) return;
+    const request = ++instrumentChangeRef.current;
+    await loadBanks(kit, [bankId]);
+    // A newer pick (or a song change) superseded this one while samples loaded
+    if (request !== instrumentChangeRef.current || kitRef.current !== kit) return;
+
+    const voice = voicesRef.current.get(trackIndex);
+    if (voice) setVoiceInstrument(voice, kit, bankId);
+    // Only remember picks that differ from what the song itself asks for
+    const overrides: Record<number, string> = {};
+    tracks.forEach((info) => {
+      const mix = trackMixesRef.current[info.index];
+      if (mix && mix.instrument !== bankForProgram(kit.manifest, info.program, info.percussion)) {
+        overrides[info.index] = mix.instrument;
+      }
+    });
+    if (songKeyRef.current) saveSongSettings(songKeyRef.current, { instruments: overrides });
+  };
+
   const handleStart = async () => {
     try {
       await Tone.start();
@@ -219,190 +784,339 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
     }
   };
 
+  // --- Audio engine: set up once, kept across songs ---
   useEffect(() => {
     let mounted = true;
     if (!hasUserStarted) return;
+    let kit: InstrumentKit | null = null;
 
     const init = async () => {
-      // 1. Setup Audio
       // Tone.start() was already called in handleStart
       
-      const sampler = new Tone.Sampler({
-        urls: {
-          A0: "A0.mp3",
-          C1: "C1.mp3",
-          "D#1": "Ds1.mp3",
-          "F#1": "Fs1.mp3",
-          A1: "A1.mp3",
-          C2: "C2.mp3",
-          "D#2": "Ds2.mp3",
-          "F#2": "Fs2.mp3",
-          A2: "A2.mp3",
-          C3: "C3.mp3",
-          "D#3": "Ds3.mp3",
-          "F#3": "Fs3.mp3",
-          A3: "A3.mp3",
-          C4: "C4.mp3",
-          "D#4": "Ds4.mp3",
-          "F#4": "Fs4.mp3",
-          A4: "A4.mp3",
-          C5: "C5.mp3",
-          "D#5": "Ds5.mp3",
-          "F#5": "Fs5.mp3",
-          A5: "A5.mp3",
-          C6: "C6.mp3",
-          "D#6": "Ds6.mp3",
-          "F#6": "Fs6.mp3",
-          A6: "A6.mp3",
-          C7: "C7.mp3",
-          "D#7": "Ds7.mp3",
-          "F#7": "Fs7.mp3",
-          A7: "A7.mp3",
-          C8: "C8.mp3"
-        },
-        release: 1,
-        baseUrl: "https://tonejs.github.io/audio/salamander/",
-        onerror: (err) => {
-            console.warn("Sampler error (continuing anyway):", err);
-        }
-      }).toDestination();
-      
-      try {
-        await Tone.loaded();
-      } catch (err) {
-        console.warn("Some samples failed to load, continuing...", err);
-      }
-      
+      // Instrument banks come from the manifest; the fallback (piano) is loaded
+      // up front for the on-screen keyboard, each song's own banks once it's parsed
+      const manifest = await loadInstrumentManifest();
+      const songKit: InstrumentKit = { manifest, buffers: new Map() };
+      kit = songKit;
+      await loadBanks(songKit, [manifest.fallback]);
+      if (!mounted) return;
+
+      kitRef.current = songKit;
+      setInstrumentBanks(Object.entries(manifest.banks).map(([id, bank]) => ({ id, name: bank.name })));
+      const sampler = createInstrument(songKit, manifest.fallback).toDestination();
       samplerRef.current = sampler;
+      metronomeVoiceRef.current = createMetronomeVoice(metronomeRef.current.volume);
+      setEngineReady(true);
+    };
 
+    init().catch(e => {
       if (!mounted) return;
+      console.error("Failed to set up audio", e);
+      setLoadingError("Could not load the instrument samples.");
+    });
+
+    return () => {
+      mounted = false;
+      setEngineReady(false);
+      if (samplerRef.current) samplerRef.current.dispose();
+      samplerRef.current = null;
+      if (metronomeVoiceRef.current) disposeMetronomeVoice(metronomeVoiceRef.current);
+      metronomeVoiceRef.current = null;
+      if (kit) disposeKit(kit);
+      kitRef.current = null;
+    };
+  }, [hasUserStarted]);
+
+  // --- Song: parsed, voiced & scheduled; re-run for every song, on the same engine ---
+  useEffect(() => {
+    let mounted = true;
+    const songKit = kitRef.current;
+    if (!engineReady || !songKit) return;
+    const loading = new AbortController();
+    const voices = voicesRef.current;
 
-      // 2. Load MIDI Logic
-      const loadMidiData = async () => {
+    const loadMidiData = async () => {
          try {
-           let arrayBuffer: ArrayBuffer | null = null;
-           let name = "";
-
-           if (file) {
-             const buffer = await file.arrayBuffer();
-             arrayBuffer = buffer;
-             name = file.name.replace('.mid', '').replace('.midi', '');
-             // Save to storage
-             try {
-                localStorage.setItem(STORAGE_KEY_NAME, name);
-                localStorage.setItem(STORAGE_KEY_DATA, arrayBufferToBase64(buffer));
-             } catch (e) {
-                console.warn("Quota exceeded, could not save to localStorage", e);
-             }
-           } else {
-             // Check Local Storage
-             const storedData = localStorage.getItem(STORAGE_KEY_DATA);
-             const storedName = localStorage.getItem(STORAGE_KEY_NAME);
-             
-             if (storedData && storedName) {
-                arrayBuffer = base64ToArrayBuffer(storedData);
-                name = storedName;
-             } else {
-                // No file found at all
-                throw new Error("No MIDI file found. Please upload one.");
-             }
+           // Selected song, or whatever was open last time
+           const song = songId ? await getSong(songId) : await getLastOpenedSong();
+           if (!song) {
+             // No song found at all
+             throw new Error("No MIDI file found. Please upload one.");
            }
-           
-           if (!arrayBuffer) throw new Error("Buffer is empty");
 
-           const midi = new Midi(arrayBuffer);
+           const arrayBuffer = await getSongData(song.id);
+           if (!arrayBuffer) throw new Error("Buffer is empty");
+           const name = song.title;
+           markSongOpened(song.id).catch(e => console.warn("Could not update library", e));
+           listTakes(song.id)
+             .then(list => { if (mounted) setTakes(list); })
+             .catch(e => console.warn("Could not read takes", e));
+
+           // Parsing & validation run in a worker; the overlay follows along
+           setLoadProgress(0);
+           const parsed = await loadSong(
+             arrayBuffer,
+             (stage, fraction) => { if (mounted) setLoadProgress(overallProgress(stage, fraction)); },
+             loading.signal
+           );
            
            if (!mounted) return;
 
+           setLoadProgress(null);
+           setLoadWarnings(parsed.warnings);
            setSongTitle(name);
-           setDuration(midi.duration);
+           setActiveTakeId(null);
+           takeNotesRef.current = [];
+           takeEventIdsRef.current = [];
+           scoringRef.current = null;
+           setIsScoring(false);
+           setScoreReport(null);
+           setShowScoreReport(false);
            
-           // Ticks & BPM Setup
-           const ppq = midi.header.ppq || 192; // Default to 192 if missing
+           // Ticks & Tempo Map Setup
+           const { tempoMap, songTicks } = parsed;
+           const ppq = tempoMap.ppq;
            Tone.Transport.PPQ = ppq;
-           const initialBpm = midi.header.tempos.length > 0 ? midi.header.tempos[0].bpm : 120;
-           setBaseBpm(initialBpm);
-           Tone.Transport.bpm.value = initialBpm;
+           tempoMapRef.current = tempoMap;
+           setTempoMap(tempoMap);
+
+           // Restore this song's loop section & trainer; a deep link's own values win over the saved ones
+           const settings = loadSongSettings(song.id);
+           const fromUrl = parsePlayerQuery(new URLSearchParams(window.location.search));
+           const loopEnabled = fromUrl.loop ? true : !!settings.loopEnabled;
+           songKeyRef.current = song.id;
+           practiceRef.current = startPractice(createId(), song.id);
+           loopRegionRef.current = fromUrl.loop ?? settings.loop ?? null;
+           loopDraftStartRef.current = null;
+           trainerRef.current = { ...DEFAULT_SPEED_TRAINER, ...settings.trainer };
+           cleanRepsRef.current = 0;
+           setLoopRegion(loopRegionRef.current);
+           setLoopEnabled(loopEnabled);
+           setLoopDraftStart(null);
+           setTrainer(trainerRef.current);
+           setCleanReps(0);
+           applyTransportLoop(loopRegionRef.current, loopEnabled);
+           if (fromUrl.speed !== undefined) {
+             playbackSpeedRef.current = fromUrl.speed;
+             setPlaybackSpeed(fromUrl.speed);
+           }
+           setTransportTempo(tempoMap, 0, playbackSpeedRef.current);
            
-           // Calculate total ticks (approximate if not present)
-           // midi.durationTicks represents the end of the last note usually
-           const lastNoteTick = Math.max(...midi.tracks.flatMap(t => t.notes.map(n => n.ticks + n.durationTicks)));
-           setTotalTicks(lastNoteTick || (midi.duration * (initialBpm / 60) * ppq));
-
-           // 3. Parse Notes
-           const parsedNotes: NoteData[] = [];
-           let minMidi = 108;
-           let maxMidi = 21;
-
-           midi.tracks.forEach((track, index) => {
-             track.notes.forEach(note => {
-               if (note.midi < minMidi) minMidi = note.midi;
-               if (note.midi > maxMidi) maxMidi = note.midi;
-               
-               parsedNotes.push({
-                 midi: note.midi,
-                 name: note.name,
-                 time: note.time,
-                 ticks: note.ticks,
-                 duration: note.duration,
-                 durationTicks: note.durationTicks,
-                 velocity: note.velocity,
-                 trackIndex: index 
-               });
-             });
+           setTotalTicks(songTicks);
+           setDuration(ticksToSeconds(tempoMap, songTicks));
+
+           // 3. Notes (sorted, pedals applied), keys & markers
+           pedalsRef.current = parsed.pedals;
+           keySignaturesRef.current = parsed.keySignatures;
+           setKeySignatures(parsed.keySignatures);
+           sectionMarkersRef.current = parsed.markers;
+           setSectionMarkers(parsed.markers);
+           sourceNotesRef.current = parsed.notes;
+           transposeRef.current = fromUrl.transpose ?? settings.transpose ?? 0;
+           setTranspose(transposeRef.current);
+
+           // 4. Per-track voices & mixer
+           const trackInfos = parsed.tracks;
+           const mixes: Record<number, TrackMix> = {};
+           trackInfos.forEach((info, i) => {
+             // GM program / drum channel, unless this song has a saved override
+             const override = settings.instruments?.[info.index];
+             const bankId = override && songKit.manifest.banks[override]
+               ? override
+               : bankForProgram(songKit.manifest, info.program, info.percussion);
+             mixes[info.index] = {
+               ...defaultTrackMix(i, bankId),
+               octave: settings.octaves?.[info.index] ?? 0,
+               hidden: fromUrl.hidden?.includes(info.index) ?? false,
+             };
            });
+           await loadBanks(songKit, Object.values(mixes).map(m => m.instrument));
+           if (!mounted) return;
 
-           // Expand visible range slightly
-           let newMin = Math.max(21, minMidi - 2);
-           let newMax = Math.min(108, maxMidi + 2);
-           
-           // Helper to check black key
-           const isBlack = (n: number) => [1, 3, 6, 8, 10].includes(n % 12);
-
-           // Ensure boundaries are white keys for cleaner edges
-           if (isBlack(newMin)) newMin = Math.max(21, newMin - 1);
-           if (isBlack(newMax)) newMax = Math.min(108, newMax + 1);
-
-           setActiveRange({ min: newMin, max: newMax });
-
-           
-           // Sort strictly by time for better performance in loop
-           // Uses TIcks for sorting now to match render loop logic
-           parsedNotes.sort((a, b) => a.ticks - b.ticks);
-
-           notesRef.current = parsedNotes;
-           searchIndexRef.current = 0; // Reset search index
+           disposeTrackVoices(voices);
+           trackInfos.forEach((info) => {
+             voices.set(info.index, createTrackVoice(songKit, mixes[info.index]));
+           });
+           trackMixesRef.current = mixes;
+           setTracks(trackInfos);
+           setTrackMixes(mixes);
+
+           // Drum-channel notes pick a drum, not a key: they get their own lane and stay off the keyboard
+           const percussionTracks = new Set(trackInfos.filter(t => t.percussion).map(t => t.index));
+           const drumNotes = parsed.notes.filter(n => percussionTracks.has(n.trackIndex));
+           drumBufferRef.current = buildNoteBuffer(drumNotes);
+           drumLanesRef.current = drumLanesFor(drumNotes);
+           setDrumLanes(drumLanesRef.current);
+
+           // Which hand plays what: saved for this song, or guessed from the tracks' pitches
+           handsRef.current = settings.hands ?? defaultHandSetup(parsed.notes.filter(n => !percussionTracks.has(n.trackIndex)));
+           setHands(handsRef.current);
+           setDynamics(dynamicsProfile(
+             parsed.notes.filter(n => !percussionTracks.has(n.trackIndex)),
+             ticksToSeconds(tempoMap, songTicks),
+             DYNAMICS_BUCKETS
+           ));
+
+           // Written notes -> played notes -> schedule; re-run whenever the pitch shift changes
+           rebuildScheduleRef.current = () => {
+             const octaves: Record<number, number> = {};
+             Object.entries(trackMixesRef.current).forEach(([index, mix]) => { octaves[Number(index)] = mix.octave; });
+             const notes = shiftNotes(sourceNotesRef.current, {
+               semitones: transposeRef.current,
+               octaves,
+               exempt: percussionTracks,
+             });
 
-           Tone.Transport.cancel();
-           
-           midi.tracks.forEach((track) => {
-             track.notes.forEach((note) => {
-               Tone.Transport.schedule((time) => {
-                 sampler.triggerAttackRelease(note.name, note.duration, time, note.velocity);
-               }, note.ticks + "i");
+             const pianoNotes = notes.filter(n => !percussionTracks.has(n.trackIndex));
+             // Fingered as played: after transposition, and per hand as the hands panel assigns them
+             suggestFingering(pianoNotes, ppq, n => handOf(handsRef.current, n.midi, n.trackIndex));
+             notesRef.current = notes;
+             pianoNotesRef.current = pianoNotes;
+             noteBufferRef.current = buildNoteBuffer(pianoNotes);
+             waterfallRendererRef.current?.setNotes(noteBufferRef.current);
+             setStaffNotes(pianoNotes);
+             // Wait mode holds only for the notes the student is playing
+             chordsRef.current = buildChords(pianoNotes.filter(n => isHandPracticed(handsRef.current, n.midi, n.trackIndex)), ppq);
+             chordIndexRef.current = findChordIndex(chordsRef.current, Tone.Transport.ticks);
+             struckRef.current = new Set();
+             setActiveRange(keyboardRangeFor(pianoNotes));
+             setFoldedNotes(pianoNotes.filter(n => n.folded).length);
+
+             scheduleSong({
+               transport: Tone.Transport,
+               notes,
+               tempoMap,
+               getSpeed: () => playbackSpeedRef.current,
+               getInstrument: (trackIndex) => voicesRef.current.get(trackIndex)?.instrument,
+               getVelocityCurve: () => velocityCurveRef.current,
+               // In wait mode the student plays every note themselves; a solo take records over silence;
+               // a hand that isn't set to "listen" is the student's (or nobody's)
+               isSilenced: (note) => waitModeRef.current
+                 || countingInRef.current
+                 || (recordingRef.current !== null && !recordingRef.current.take.withSong)
+                 || (!percussionTracks.has(note.trackIndex) && !isHandHeard(handsRef.current, note.midi, note.trackIndex)),
              });
-           });
+             scheduleMetronome(Tone.Transport, tempoMap, songTicks, (time, beat) => {
+               if (!metronomeRef.current.enabled || countingInRef.current) return;
+               const accent = beat.beat === 1;
+               if (metronomeVoiceRef.current) playClick(metronomeVoiceRef.current, time, accent);
+               Tone.Draw.schedule(() => flashBeat(beatPulseRef.current, beat.beat, accent), time);
+             });
+             Tone.Transport.schedule((time) => {
+               Tone.Draw.schedule(() => songEndRef.current(), time);
+             }, songTicks + 'i');
+           };
+           if (fromUrl.position !== undefined) {
+             const position = Math.min(fromUrl.position, ticksToSeconds(tempoMap, songTicks));
+             seekTransportToSeconds(tempoMap, position, playbackSpeedRef.current);
+             setCurrentTime(position);
+           }
+           rebuildScheduleRef.current();
 
            setIsReady(true);
+           // Auto-advance from the queue carries on playing
+           if (autoplayRef.current) {
+             autoplayRef.current = false;
+             startPlaybackRef.current();
+             setIsPlaying(true);
+           }
          } catch (e) {
+           if (!mounted) return;
            console.error("Failed to load MIDI", e);
-           setLoadingError("Failed to parse MIDI file.");
+           setLoadProgress(null);
+           if (e instanceof MidiFileError) {
+             setLoadDiagnostics(e.diagnostics);
+             setLoadingError("This file can't be played.");
+           } else {
+             setLoadingError(e instanceof Error ? e.message : "Failed to load the song.");
+           }
          }
-      };
-      
-      loadMidiData();
     };
 
-    init();
+    loadMidiData();
 
     return () => {
       mounted = false;
+      loading.abort();
+      savePracticeRef.current(true);
       Tone.Transport.stop();
       Tone.Transport.cancel();
-      if (samplerRef.current) samplerRef.current.dispose();
+      countInTimersRef.current.forEach(id => Tone.getContext().clearTimeout(id));
+      countInTimersRef.current = [];
+      countingInRef.current = false;
+      disposeTrackVoices(voices);
       cancelAnimationFrame(animationFrameRef.current!);
     };
-  }, [file, hasUserStarted]); // Reload if file changes
+  }, [songId, engineReady]); // Reload if song changes
+
+  // --- Waterfall Renderer ---
+  useEffect(() => {
+    if (!isReady || !waterfallRef.current) return;
+    const renderer = createWaterfallRenderer(waterfallRef.current);
+    renderer.setNotes(noteBufferRef.current);
+    waterfallRendererRef.current = renderer;
+    return () => {
+      waterfallRendererRef.current = null;
+      renderer.dispose();
+    };
+  }, [isReady]);
+
+  useEffect(() => {
+    waterfallRendererRef.current?.setLayout(buildKeyLayout(keyboardConfig));
+  }, [isReady, keyboardConfig]);
+
+  useEffect(() => {
+    const colors: Record<number, string> = {};
+    const hidden: number[] = [];
+    Object.entries(trackMixes).forEach(([index, mix]) => {
+      colors[Number(index)] = mix.color;
+      if (mix.hidden) hidden.push(Number(index));
+    });
+    waterfallRendererRef.current?.setStyle({ colors, hidden, hands });
+  }, [isReady, trackMixes, hands]);
+
+  // --- Session URL ---
+  // Kept in step with the settings (and the position whenever playback pauses or seeks), so the view can be bookmarked
+  useEffect(() => {
+    if (!isReady || !songKeyRef.current) return;
+    const search = buildPlayerQuery({
+      position: ticksToSeconds(tempoMapRef.current, Tone.Transport.ticks),
+      speed: playbackSpeed,
+      loop: loopEnabled && loopRegion ? loopRegion : undefined,
+      transpose,
+      hidden: Object.entries(trackMixes).filter(([, mix]) => mix.hidden).map(([index]) => Number(index)),
+    }).toString();
+    const pathname = playerPath(songKeyRef.current);
+    if (pathname === location.pathname && search === location.search.replace(/^\?/, '')) return;
+    navigate({ pathname, search }, { replace: true });
+  }, [isReady, isPlaying, currentTime, playbackSpeed, loopRegion, loopEnabled, transpose, trackMixes, location, navigate]);
+
+  // --- Practice history ---
+  // Playing time & top speed count while playing; each pause saves the session so far
+  useEffect(() => {
+    const tracker = practiceRef.current;
+    if (!tracker) return;
+    setPracticePlaying(tracker, isPlaying);
+    if (isPlaying) notePracticeSpeed(tracker, playbackSpeed);
+    else savePracticeRef.current(false);
+  }, [isPlaying, playbackSpeed]);
+
+  useEffect(() => {
+    const onPageHide = () => savePracticeRef.current(false);
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, []);
+
+  // Titles for the queue panel
+  useEffect(() => {
+    let cancelled = false;
+    listSongs()
+      .then(songs => {
+        if (!cancelled) setQueueTitles(Object.fromEntries(songs.map(song => [song.id, song.title])));
+      })
+      .catch(e => console.warn("Could not read library", e));
+    return () => { cancelled = true; };
+  }, [queue]);
 
   // --- Animation Loop ---
   useEffect(() => {
@@ -419,47 +1133,66 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
       canvas.width = canvas.offsetWidth * window.devicePixelRatio;
       canvas.height = canvas.offsetHeight * window.devicePixelRatio;
       ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+      waterfallRendererRef.current?.resize({
+        width: canvas.offsetWidth,
+        height: canvas.offsetHeight,
+        pixelRatio: window.devicePixelRatio,
+      });
     };
     handleResize();
-    window.addEventListener('resize', handleResize);
+    // The waterfall also narrows when the percussion lane appears, not just on window resizes
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(canvas);
 
     const render = () => {
       // Use Ticks for synchronization instead of seconds to support variable BPM
       const currentTicks = Tone.Transport.ticks;
       
-      // Map Ticks -> Projected "Song Seconds" for scrubber
+      // Map Ticks -> "Song Seconds" through the tempo map for the scrubber
       // This keeps the scrubber moving at a rate that matches the song's original duration
       // regardless of playback speed.
-      const projectedTime = totalTicks > 0 ? (currentTicks / totalTicks) * duration : 0;
+      const projectedTime = ticksToSeconds(tempoMapRef.current, currentTicks);
       
       if (scrubberRef.current) {
         scrubberRef.current.value = String(projectedTime);
       }
       if (timeDisplayRef.current) {
-        const mins = Math.floor(projectedTime / 60);
-        const secs = Math.floor(projectedTime % 60);
-        timeDisplayRef.current.innerText = `${mins}:${secs.toString().padStart(2, '0')}`;
+        timeDisplayRef.current.innerText = timeModeRef.current === 'bars'
+          ? formatBarBeat(ticksToBarBeat(tempoMapRef.current, currentTicks))
+          : formatTime(projectedTime);
       }
       
-      // Automatic Reset on Backward Seek/Loop
-      // If time jumped backwards by more than a small threshold, we reset search
-      // Using ticks for check is safer
+      // Track jumps in the transport (seeks, skips, loop wraps)
       const nowTicksStr = currentTicks;
-      if (nowTicksStr < (lastTimeRef.current || 0)) {
-           searchIndexRef.current = 0;
-      }
+      const lastTicks = lastTimeRef.current || 0;
       lastTimeRef.current = nowTicksStr;
 
+      // Any seek or skip re-aims wait mode at the next chord
+      const jumpTicks = (Tone.Transport.bpm.value * Tone.Transport.PPQ) / 120; // ~0.5s
+      if (waitModeRef.current && Math.abs(nowTicksStr - lastTicks) > jumpTicks) {
+        syncPracticeToTicks(nowTicksStr);
+      }
+
+      // Wait Mode: hold the transport at the next chord until it's played
+      if (waitModeRef.current && !waitingRef.current && Tone.Transport.state === 'started') {
+        const chord = chordsRef.current[chordIndexRef.current];
+        if (chord && currentTicks >= chord.ticks) {
+          if (isChordSatisfied(chord, struckRef.current)) {
+            struckRef.current = new Set();
+            chordIndexRef.current++;
+          } else {
+            Tone.Transport.pause();
+            Tone.Transport.ticks = chord.ticks;
+            lastTimeRef.current = chord.ticks; // Not a seek
+            waitingRef.current = true;
+            setWaitingChord(chord);
+          }
+        }
+      }
+
       // Clear Screen
-      // Optimization: Access ref once
-      const canvas = canvasRef.current;
-      if (!canvas) return; // Should not happen given outer check but safety first
-      
       const width = canvas.offsetWidth; 
       const height = canvas.offsetHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
       ctx.clearRect(0, 0, width, height);
       
       // VISIBILITY CALCULATION
@@ -471,118 +1204,241 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
       const visibleTickRange = NOTES_VISIBLE_DURATION * ticksPerSecond;
       
       const pixelsPerTick = height / visibleTickRange;
-      
-      const currentActive = new Set<number>();
-      
-      // Batch Drawing Arrays
-      const leftHandRects: [number, number, number, number][] = [];
-      const rightHandRects: [number, number, number, number][] = [];
-
-      // Loop Optimization
-      let i = searchIndexRef.current;
-      while (i < notesRef.current.length) {
-         const note = notesRef.current[i];
-         // Pruning: If note END is before current ticks (with 1s buffer converted to ticks approx)
-         // Buffer = 1s * ticksPerSecond
-         const bufferTicks = ticksPerSecond;
-         if (note.ticks + note.durationTicks < currentTicks - bufferTicks) { 
-             i++;
-             searchIndexRef.current = i;
-         } else {
-             break;
-         }
-      }
 
-      // Render Loop
-      const notes = notesRef.current;
-      const len = notes.length;
+      // Beat grid: bar lines with their numbers, fainter lines on the other beats
+      const gridY = (t: number) => height - (t - currentTicks) * pixelsPerTick;
+      ctx.font = '600 10px system-ui, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+      for (const beat of beatsBetween(tempoMapRef.current, currentTicks, currentTicks + visibleTickRange)) {
+        const y = gridY(beat.ticks);
+        if (beat.beat === 1) {
+          ctx.fillStyle = BAR_LINE_COLOR;
+          ctx.fillRect(0, y, width, 1);
+          ctx.fillStyle = BAR_NUMBER_COLOR;
+          ctx.fillText(String(beat.bar), 4, y - 2);
+        } else {
+          ctx.fillStyle = BEAT_LINE_COLOR;
+          ctx.fillRect(0, y, width, 1);
+        }
+      }
 
-      for (let j = i; j < len; j++) {
-        const note = notes[j];
-        
-        const ticksUntilHit = note.ticks - currentTicks;
-        
-        // VISIBILITY CULLING (Future)
-        if (ticksUntilHit > visibleTickRange) {
-             break; 
+      // Section markers, labeled; the labels are click targets
+      const markerHits: MarkerHit[] = [];
+      for (const marker of sectionMarkersRef.current) {
+        if (marker.ticks < currentTicks) continue;
+        if (marker.ticks > currentTicks + visibleTickRange) break;
+        const y = gridY(marker.ticks);
+        ctx.fillStyle = MARKER_COLOR;
+        ctx.globalAlpha = 0.6;
+        ctx.fillRect(0, y - 1, width, 2);
+        ctx.globalAlpha = 1;
+        const hit = { x: MARKER_LABEL_X, y: y - 18, w: ctx.measureText(marker.text).width + 12, h: 16, ticks: marker.ticks };
+        ctx.beginPath();
+        roundRect(ctx, hit.x, hit.y, hit.w, hit.h, 4);
+        ctx.fill();
+        ctx.fillStyle = '#0f172a';
+        ctx.fillText(marker.text, hit.x + 6, y - 5);
+        markerHits.push(hit);
+      }
+      markerHitsRef.current = markerHits;
+
+      // Loop section band (drawn under the notes)
+      const region = loopRegionRef.current;
+      const markers = region ? [region.startTicks, region.endTicks] : loopDraftStartRef.current !== null ? [loopDraftStartRef.current] : [];
+      if (markers.length > 0) {
+        const yFor = (t: number) => height - (t - currentTicks) * pixelsPerTick;
+        if (region) {
+          const top = Math.max(0, yFor(region.endTicks));
+          const bottom = Math.min(height, yFor(region.startTicks));
+          if (bottom > top) {
+            ctx.fillStyle = 'rgba(251, 191, 36, 0.05)';
+            ctx.fillRect(0, top, width, bottom - top);
+          }
+        }
+        ctx.fillStyle = 'rgba(251, 191, 36, 0.6)';
+        for (const t of markers) {
+          const y = yFor(t);
+          if (y >= 0 && y <= height) ctx.fillRect(0, y - 1, width, 2);
         }
+      }
+      
+      // Pedal lanes along the right edge, falling with the notes
+      const pedals = pedalsRef.current;
+      let laneX = width - PEDAL_LANE_WIDTH - 4;
+      for (const name of PEDAL_NAMES) {
+        const spans = pedals[name];
+        if (spans.length === 0) continue;
+        ctx.fillStyle = PEDAL_COLORS[name];
+        for (const span of spans) {
+          if (span.endTicks < currentTicks) continue;
+          if (span.startTicks > currentTicks + visibleTickRange) break;
+          const bottom = height - (span.startTicks - currentTicks) * pixelsPerTick;
+          const top = height - (span.endTicks - currentTicks) * pixelsPerTick;
+          ctx.fillRect(laneX, Math.max(0, top), PEDAL_LANE_WIDTH, Math.min(height, bottom) - Math.max(0, top));
+        }
+        laneX -= PEDAL_LANE_WIDTH + 3;
+      }
 
-        const ticksEndUntilHit = (note.ticks + note.durationTicks) - currentTicks;
-        
-        // VISIBILITY CULLING (Past)
-        if (ticksEndUntilHit < 0) {
-            continue; 
+      // Pedal indicator on the keyboard deck
+      if (pedalIndicatorRef.current) {
+        for (const name of PEDAL_NAMES) {
+          const down = spanAt(pedals[name], currentTicks) !== null;
+          pedalIndicatorRef.current.querySelector(`[data-pedal="${name}"]`)?.classList.toggle('down', down);
         }
+      }
+      
+      // Falling notes live on their own layer, drawn by the waterfall renderer
+      waterfallRendererRef.current?.draw({ ticks: currentTicks, visibleTicks: visibleTickRange });
 
-        // Active Key Logic
-        if (currentTicks >= note.ticks && currentTicks < (note.ticks + note.durationTicks)) {
-             currentActive.add(note.midi);
+      // Keys lit by the notes sounding at the playhead, and labels for the notes in view.
+      // The time index walks only the notes overlapping that window.
+      const mixes = trackMixesRef.current;
+      const labelMode = noteLabelModeRef.current;
+      const currentActive = new Set<number>();
+      const activeFingerMap = new Map<number, number>();
+      const labels: [string, number, number, number][] = []; // text, centre x, bottom y, max width
+      const notes = pianoNotesRef.current;
+      const noteBuffer = noteBufferRef.current;
+      const scanUntil = labelMode !== 'none' ? currentTicks + visibleTickRange : currentTicks;
+      forEachNoteIn(noteBuffer, currentTicks, scanUntil, j => {
+        const note = notes[j];
+        const endTicks = note.ticks + note.durationTicks;
+        // Hidden tracks & hands neither fall nor light up keys
+        if (mixes[note.trackIndex]?.hidden || !isHandShown(handsRef.current, note.midi, note.trackIndex)) return;
+
+        if (currentTicks >= note.ticks && currentTicks < endTicks) {
+          currentActive.add(note.midi);
+          if (note.finger) activeFingerMap.set(note.midi, note.finger);
         }
 
-        // --- DRAWING CALCS ---
+        if (labelMode === 'none') return;
         const keyData = keyConfigMap.get(note.midi);
-        if (!keyData) continue;
-
+        const noteHeight = note.durationTicks * pixelsPerTick;
+        if (!keyData || noteHeight < MIN_LABEL_HEIGHT) return;
+        const text = noteLabel(labelMode, note.midi, {
+          key: keyAt(keySignaturesRef.current, note.ticks, transposeRef.current),
+          name: note.name,
+          finger: note.finger,
+        });
         const x = (keyData.left / 100) * width;
         const w = (keyData.width / 100) * width;
-        
-        // Calculate Y
-        const bottomY = height - (ticksUntilHit * pixelsPerTick);
-        const noteHeight = note.durationTicks * pixelsPerTick;
-        const topY = bottomY - noteHeight;
-        
-        // Push to batches
-        if (note.trackIndex > 0) {
-           leftHandRects.push([x, topY, w, noteHeight - 1]);
-        } else {
-           rightHandRects.push([x, topY, w, noteHeight - 1]);
+        if (text) labels.push([text, x + w / 2, height - (note.ticks - currentTicks) * pixelsPerTick - 3, w - 2]);
+      });
+
+      // Labels sit at the bottom of each note, where it meets the keyboard
+      if (labels.length > 0) {
+        ctx.font = '600 10px system-ui, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+        for (const [text, cx, y, maxWidth] of labels) {
+          // Drop the octave (e.g. "C#4" -> "C#") when the note is too narrow for it
+          const fitted = ctx.measureText(text).width <= maxWidth ? text : text.replace(/-?\d+$/, '');
+          ctx.fillText(fitted, cx, y, maxWidth);
         }
       }
 
-      // --- BATCH DRAW ---
-      // Draw Left Hand (Blue)
-      if (leftHandRects.length > 0) {
-        ctx.fillStyle = '#38bdf8';
-        ctx.shadowColor = '#38bdf8';
-        ctx.shadowBlur = 10;
-        ctx.beginPath();
-        for (const [x, y, w, h] of leftHandRects) {
-           roundRect(ctx, x, y, w, h, 4);
-        }
-        ctx.fill();
+      // A scored run ends when playback stops (other than a wait-mode hold) or the song runs out
+      const scoring = scoringRef.current;
+      if (scoring) {
+        scoringEndRef.current = Math.max(scoringEndRef.current, currentTicks);
+        const lastExpected = scoring.expected[scoring.expected.length - 1];
+        const pastEnd = !lastExpected || currentTicks > lastExpected.ticks + tempoMapRef.current.ppq;
+        if (pastEnd || (Tone.Transport.state !== 'started' && !waitingRef.current && !countingInRef.current)) finishScoring();
       }
 
-      // Draw Right Hand (Purple)
-      if (rightHandRects.length > 0) {
-        ctx.fillStyle = '#a78bfa';
-        ctx.shadowColor = '#a78bfa';
-        ctx.shadowBlur = 10;
+      // Shown take and the take being recorded, in their own color
+      const recording = recordingRef.current;
+      const takeNotes = recording ? [...takeNotesRef.current, ...recording.take.notes] : takeNotesRef.current;
+      if (takeNotes.length > 0) {
+        ctx.fillStyle = TAKE_COLOR;
+        ctx.globalAlpha = 0.75;
         ctx.beginPath();
-        for (const [x, y, w, h] of rightHandRects) {
-           roundRect(ctx, x, y, w, h, 4);
+        for (const note of takeNotes) {
+          // Notes still held while recording grow up to the playhead
+          const durationTicks = recording?.held.get(note.midi) === note
+            ? Math.max(0, currentTicks - note.ticks)
+            : note.durationTicks;
+          const ticksUntilHit = note.ticks - currentTicks;
+          if (ticksUntilHit > visibleTickRange || ticksUntilHit + durationTicks < 0) continue;
+          const keyData = keyConfigMap.get(note.midi);
+          if (!keyData) continue;
+          const x = (keyData.left / 100) * width;
+          const w = (keyData.width / 100) * width;
+          const bottomY = height - ticksUntilHit * pixelsPerTick;
+          const noteHeight = Math.max(2, durationTicks * pixelsPerTick);
+          roundRect(ctx, x + w * 0.2, bottomY - noteHeight, w * 0.6, noteHeight - 1, 3);
         }
         ctx.fill();
+        ctx.globalAlpha = 1;
       }
-      
-      // Cleanup visual state
-      ctx.shadowBlur = 0;
-
-      // Sync Active Keys
-      const prev = activeKeysRef.current;
-      let changed = false;
-      if (prev.size !== currentActive.size) changed = true;
-      else {
-          for (const k of currentActive) {
-              if (!prev.has(k)) {
-                  changed = true;
-                  break;
-              }
+
+      // Wrong-note flashes along the hit line
+      if (wrongNotesRef.current.size > 0) {
+        const now = performance.now();
+        ctx.fillStyle = '#ef4444';
+        for (const [midi, flaggedAt] of wrongNotesRef.current) {
+          const age = now - flaggedAt;
+          const keyData = keyConfigMap.get(midi);
+          if (age > WRONG_NOTE_FLASH_MS || !keyData) {
+            wrongNotesRef.current.delete(midi);
+            continue;
           }
+          ctx.globalAlpha = 1 - age / WRONG_NOTE_FLASH_MS;
+          const x = (keyData.left / 100) * width;
+          const w = (keyData.width / 100) * width;
+          ctx.fillRect(x, height - 40, w, 40);
+        }
+        ctx.globalAlpha = 1;
+      }
+
+      // Lit keys & their fingers re-render the keyboard only when they change, not every frame
+      if (!sameSet(activeKeysRef.current, currentActive)) {
+        activeKeysRef.current = currentActive;
+        setActiveKeys(currentActive);
+      }
+      if (!sameMap(activeFingersRef.current, activeFingerMap)) {
+        activeFingersRef.current = activeFingerMap;
+        setActiveFingers(activeFingerMap);
+      }
+
+      // Percussion lane: drum hits fall in their own columns and light the drum's pad
+      const drumCanvas = drumCanvasRef.current;
+      const drumCtx = drumCanvas?.getContext('2d');
+      if (drumCanvas && drumCtx) {
+        const size = { width: drumCanvas.offsetWidth, height: drumCanvas.offsetHeight, pixelRatio: window.devicePixelRatio };
+        if (drumCanvas.width !== Math.round(size.width * size.pixelRatio) || drumCanvas.height !== Math.round(size.height * size.pixelRatio)) {
+          drumCanvas.width = Math.round(size.width * size.pixelRatio);
+          drumCanvas.height = Math.round(size.height * size.pixelRatio);
+          drumCtx.setTransform(size.pixelRatio, 0, 0, size.pixelRatio, 0, 0);
+        }
+        const colors: Record<number, string> = {};
+        const hidden: number[] = [];
+        Object.entries(mixes).forEach(([index, mix]) => {
+          colors[Number(index)] = mix.color;
+          if (mix.hidden) hidden.push(Number(index));
+        });
+        const struck = drawDrumLane(
+          drumCtx,
+          drumBufferRef.current,
+          drumLanesRef.current,
+          { colors, hidden },
+          size,
+          { ticks: currentTicks, visibleTicks: visibleTickRange },
+          tempoMapRef.current.ppq / DRUM_HIT_DIVISION
+        );
+        if (!sameSet(activeDrumsRef.current, struck)) {
+          activeDrumsRef.current = struck;
+          setActiveDrums(struck);
+        }
       }
 
-      if (changed) {
-          activeKeysRef.current = currentActive;
-          setActiveKeys(currentActive);
+      // Scale degrees on the keys follow key changes
+      const key = keyAt(keySignaturesRef.current, currentTicks, transposeRef.current);
+      if (key.tonic !== currentKeyRef.current.tonic || key.minor !== currentKeyRef.current.minor) {
+        currentKeyRef.current = key;
+        setCurrentKey(key);
       }
 
       animationFrameRef.current = requestAnimationFrame(render);
@@ -591,105 +1447,451 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
     render();
 
     return () => {
-      window.removeEventListener('resize', handleResize);
+      resizeObserver.disconnect();
       cancelAnimationFrame(animationFrameRef.current!);
     };
-  }, [isReady, duration, keyConfigMap, totalTicks]);  
+  }, [isReady, keyConfigMap]);  
 
-  // --- Keyboard Controls ---
+  // --- Loop Repetitions ---
   useEffect(() => {
-    if (!isReady) return;
-
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Prevent default behavior for arrow keys to avoid page scrolling
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', ' '].includes(e.key)) {
-        e.preventDefault();
-      }
+    loopRepeatRef.current = handleLoopRepeat;
+    startPlaybackRef.current = startPlayback;
+    songEndRef.current = handleSongEnd;
+    computerKeyRef.current = handleComputerKey;
+    savePracticeRef.current = savePractice;
+  });
 
-      switch (e.key) {
-        case ' ': // Space bar - play/pause
-          togglePlay();
-          break;
-        case 'ArrowLeft': // Left arrow - 5 seconds backward
-          skipBackward();
-          break;
-        case 'ArrowRight': // Right arrow - 5 seconds forward
-          skipForward();
-          break;
-        case 'ArrowUp': // Up arrow - increase speed
-          setPlaybackSpeed(prev => {
-            const newSpeed = Math.min(2.0, prev + 0.1);
-            if (baseBpm) {
-              Tone.Transport.bpm.value = baseBpm * newSpeed;
-            }
-            return newSpeed;
-          });
-          break;
-        case 'ArrowDown': // Down arrow - decrease speed
-          setPlaybackSpeed(prev => {
-            const newSpeed = Math.max(0.2, prev - 0.1);
-            if (baseBpm) {
-              Tone.Transport.bpm.value = baseBpm * newSpeed;
-            }
-            return newSpeed;
-          });
-          break;
+  useEffect(() => {
+    const onLoop = (time: number) => {
+      // Tempo changes are only scheduled at their own tick, so a section crossing one would restart at its end tempo
+      const region = loopRegionRef.current;
+      if (region) Tone.Transport.bpm.setValueAtTime(tempoAt(tempoMapRef.current, region.startTicks) * playbackSpeedRef.current, time);
+      const { countInBars, countInOnLoop } = metronomeRef.current;
+      const countIn = countInOnLoop && countInBars > 0 && !waitModeRef.current;
+      if (countIn) {
+        // Hold at the loop start; the notes there are silenced now and replayed on resume
+        countingInRef.current = true;
+        Tone.Transport.pause(time);
       }
+      // Fires ahead of time on the audio clock; run when the wrap is audible
+      Tone.Draw.schedule(() => {
+        loopRepeatRef.current();
+        if (countIn) startPlaybackRef.current();
+      }, time);
     };
+    Tone.Transport.on('loop', onLoop);
+    return () => {
+      Tone.Transport.off('loop', onLoop);
+    };
+  }, []);
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isReady, baseBpm]);
+  // --- Keyboard Controls ---
+  useEffect(() => {
+    if (!isReady) return;
+    const onKey = (e: Event) => computerKeyRef.current(e);
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    window.addEventListener('blur', onKey);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+      window.removeEventListener('blur', onKey);
+    };
+  }, [isReady]);
 
   // --- Handlers ---
+  // --- Metronome & Count-in ---
+  // Starts the transport, after the count-in bars (in the meter & tempo at the playhead) if there are any
+  const startPlayback = () => {
+    const bars = metronomeRef.current.countInBars;
+    if (bars === 0 || waitModeRef.current) {
+      countingInRef.current = false;
+      Tone.Transport.start();
+      return;
+    }
+
+    const { beats, duration } = countInBeats(tempoMapRef.current, Tone.Transport.ticks, bars, playbackSpeedRef.current);
+    const context = Tone.getContext();
+    const from = Tone.now();
+    countingInRef.current = true;
+    setCountingIn(true);
+    // Context timeouts fire one lookahead early, so each click is still scheduled ahead of its time
+    countInTimersRef.current = beats.map(({ offset, beat, accent }) => context.setTimeout(() => {
+      if (metronomeVoiceRef.current) playClick(metronomeVoiceRef.current, from + offset, accent);
+      Tone.Draw.schedule(() => flashBeat(beatPulseRef.current, beat, accent), from + offset);
+    }, offset));
+    countInTimersRef.current.push(context.setTimeout(() => {
+      countInTimersRef.current = [];
+      countingInRef.current = false;
+      setCountingIn(false);
+      Tone.Transport.start(from + duration);
+    }, duration));
+  };
+
+  const updateMetronome = (patch: Partial<MetronomeSettings>) => {
+    const next = { ...metronomeRef.current, ...patch };
+    metronomeRef.current = next;
+    setMetronome(next);
+    if (metronomeVoiceRef.current) setMetronomeVolume(metronomeVoiceRef.current, next.volume);
+    localStorage.setItem(STORAGE_KEY_METRONOME, JSON.stringify(next));
+  };
+
   const togglePlay = () => {
+    if (countingInRef.current) {
+      // Stop the count-in (or the hold before a loop repetition)
+      countInTimersRef.current.forEach(id => Tone.getContext().clearTimeout(id));
+      countInTimersRef.current = [];
+      countingInRef.current = false;
+      setCountingIn(false);
+      Tone.Transport.pause();
+      setIsPlaying(false);
+      return;
+    }
+    if (waitingRef.current) {
+      // Already paused on a chord; just drop out of the wait
+      waitingRef.current = false;
+      setWaitingChord(null);
+      setIsPlaying(false);
+      return;
+    }
     if (Tone.Transport.state === 'started') {
       Tone.Transport.pause();
       setIsPlaying(false);
     } else {
-      Tone.Transport.start();
+      startPlaybackRef.current();
+      setIsPlaying(true);
+    }
+  };
+
+  // --- Dynamics ---
+  const changeVelocityCurve = (curve: VelocityCurve) => {
+    velocityCurveRef.current = curve;
+    setVelocityCurve(curve);
+    localStorage.setItem(STORAGE_KEY_VELOCITY_CURVE, curve);
+  };
+
+  const changeShowDynamicsGraph = (show: boolean) => {
+    setShowDynamicsGraph(show);
+    localStorage.setItem(STORAGE_KEY_DYNAMICS_GRAPH, String(show));
+  };
+
+  // --- Labels ---
+  const changeKeyLabelMode = (mode: LabelMode) => {
+    setKeyLabelMode(mode);
+    localStorage.setItem(STORAGE_KEY_KEY_LABELS, mode);
+  };
+
+  const changeNoteLabelMode = (mode: LabelMode) => {
+    noteLabelModeRef.current = mode;
+    setNoteLabelMode(mode);
+    localStorage.setItem(STORAGE_KEY_NOTE_LABELS, mode);
+  };
+
+  // --- Scoring ---
+  const scoreNote = (midi: number, velocity: number) => {
+    const session = scoringRef.current;
+    if (!session) return;
+    scorePlayedNote(session, midi, velocity, Tone.Transport.ticks);
+    setLiveScore({ hits: session.hits.size, extras: session.extras.length });
+  };
+
+  // A run from `startTicks` on; the last run's report stays up until the user starts another
+  const startScoringRun = (startTicks: number) => {
+    const mixes = trackMixesRef.current;
+    // Hidden tracks aren't shown, so they aren't expected either; nor is a hand left to playback
+    const expected = pianoNotesRef.current.filter(n => !mixes[n.trackIndex]?.hidden && isHandPracticed(handsRef.current, n.midi, n.trackIndex));
+    scoringRef.current = startScoring(expected, tempoMapRef.current, startTicks, playbackSpeedRef.current, scoringWindows);
+    scoringEndRef.current = startTicks;
+    setLiveScore({ hits: 0, extras: 0 });
+    setIsScoring(true);
+  };
+
+  const beginScoring = () => {
+    startScoringRun(Tone.Transport.ticks);
+    setShowScoreReport(false);
+    if (Tone.Transport.state !== 'started' && !waitingRef.current && !countingInRef.current) {
+      startPlayback();
+      setIsPlaying(true);
+    }
+  };
+
+  const finishScoring = () => {
+    const session = scoringRef.current;
+    if (!session) return;
+    scoringRef.current = null;
+    setIsScoring(false);
+    const report = buildScoreReport(session, scoringEndRef.current);
+    if (practiceRef.current && report.expected > 0) notePracticeScore(practiceRef.current, report.accuracy);
+    setScoreReport(report);
+    setShowScoreReport(true);
+  };
+
+  // Stores the session with where it stands now, to continue from; `end` closes it (leaving the song)
+  const savePractice = (end: boolean) => {
+    const tracker = practiceRef.current;
+    if (!tracker) return;
+    if (end) {
+      setPracticePlaying(tracker, false);
+      practiceRef.current = null;
+    }
+    const loop = loopRegionRef.current;
+    const session = practiceSnapshot(tracker, {
+      position: ticksToSeconds(tempoMapRef.current, Tone.Transport.ticks),
+      speed: playbackSpeedRef.current,
+      loop: Tone.Transport.loop && loop ? loop : undefined,
+      transpose: transposeRef.current,
+      hidden: Object.entries(trackMixesRef.current).filter(([, mix]) => mix.hidden).map(([index]) => Number(index)),
+    });
+    if (session) savePracticeSession(session).catch(e => console.warn("Could not save practice history", e));
+  };
+
+  const updateScoringWindows = (patch: Partial<ScoringWindows>) => {
+    const next = { ...scoringWindows, ...patch };
+    // The hit window can never be tighter than "on time"
+    next.hitMs = Math.max(next.hitMs, next.perfectMs);
+    setScoringWindows(next);
+    localStorage.setItem(STORAGE_KEY_SCORING_WINDOWS, JSON.stringify(next));
+  };
+
+  const seekToTicks = (ticks: number) => {
+    const map = tempoMapRef.current;
+    seekTransportToSeconds(map, ticksToSeconds(map, ticks), playbackSpeedRef.current);
+  };
+
+  // --- Recording & takes ---
+  const showTake = (take: Take | null) => {
+    takeEventIdsRef.current.forEach(id => Tone.Transport.clear(id));
+    takeNotesRef.current = take ? takeToNotes(take, tempoMapRef.current) : [];
+    // Played on the keyboard's instrument, not through the song's mixer
+    takeEventIdsRef.current = scheduleNotes({
+      transport: Tone.Transport,
+      notes: takeNotesRef.current,
+      getInstrument: () => samplerRef.current ?? undefined,
+      isSilenced: () => !takeAudibleRef.current || recordingRef.current !== null,
+    });
+    setActiveTakeId(take?.id ?? null);
+  };
+
+  const toggleRecording = () => {
+    const recording = recordingRef.current;
+    if (recording) {
+      const take = stopRecording(recording, Tone.Transport.ticks);
+      recordingRef.current = null;
+      setIsRecording(false);
+      if (Tone.Transport.state === 'started') {
+        Tone.Transport.pause();
+        setIsPlaying(false);
+      }
+      if (take.notes.length === 0) return; // Nothing was played
+      setTakes(prev => [...prev, take]);
+      showTake(take);
+      saveTake(take).catch(e => console.error("Could not save take", e));
+      return;
+    }
+
+    recordingRef.current = startRecording({
+      id: createId(),
+      songId: songKeyRef.current,
+      name: `Take ${takes.length + 1}`,
+      createdAt: Date.now(),
+      ppq: tempoMapRef.current.ppq,
+      withSong: recordWithSong,
+    });
+    setIsRecording(true);
+    if (Tone.Transport.state !== 'started' && !waitingRef.current && !countingInRef.current) {
+      startPlayback();
       setIsPlaying(true);
     }
   };
 
+  const changeRecordWithSong = (withSong: boolean) => {
+    setRecordWithSong(withSong);
+    localStorage.setItem(STORAGE_KEY_RECORD_WITH_SONG, String(withSong));
+  };
+
+  const changeTakeAudible = (audible: boolean) => {
+    takeAudibleRef.current = audible;
+    setTakeAudible(audible);
+  };
+
+  const exportTake = (take: Take) => {
+    downloadBlob(takeToMidi(take, tempoMapRef.current, songTitle), `${safeFileName(songTitle)} - ${safeFileName(take.name, 'take')}.mid`);
+  };
+
+  const removeTake = async (take: Take) => {
+    if (!window.confirm(`Delete ${take.name}?`)) return;
+    if (take.id === activeTakeId) showTake(null);
+    setTakes(prev => prev.filter(t => t.id !== take.id));
+    await deleteTake(take.id).catch(e => console.error("Could not delete take", e));
+  };
+
+  // --- WAV export ---
+  const renderExport = (signal: AbortSignal, onProgress: (fraction: number) => void) => {
+    const kit = kitRef.current;
+    if (!kit) return Promise.reject(new Error('Samples are not loaded'));
+    // Live playback would compete with the render for the CPU
+    if (Tone.Transport.state === 'started') {
+      Tone.Transport.pause();
+      setIsPlaying(false);
+    }
+    return renderSongToWav({
+      notes: notesRef.current,
+      tempoMap: tempoMapRef.current,
+      speed: playbackSpeedRef.current,
+      velocityCurve: velocityCurveRef.current,
+      kit,
+      mixes: trackMixesRef.current,
+      onProgress,
+      signal,
+    });
+  };
+
   const skipForward = () => {
-    Tone.Transport.seconds += 5;
+    const map = tempoMapRef.current;
+    seekTransportToSeconds(map, ticksToSeconds(map, Tone.Transport.ticks) + 5, playbackSpeedRef.current);
   };
   
   const skipBackward = () => {
-    Tone.Transport.seconds = Math.max(0, Tone.Transport.seconds - 5);
+    const map = tempoMapRef.current;
+    seekTransportToSeconds(map, ticksToSeconds(map, Tone.Transport.ticks) - 5, playbackSpeedRef.current);
   };
   
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     const timeVal = parseFloat(e.target.value);
-    
-    if (totalTicks > 0 && duration > 0) {
-        // Reverse project time -> ticks
-        const ratio = timeVal / duration;
-        const targetTick = ratio * totalTicks;
-        // Schedule transport to tick
-        // We use string 'i' to be precise with ticks
-        const tickStr = Math.floor(targetTick) + "i";
-        Tone.Transport.position = tickStr;
-    } else {
-        Tone.Transport.seconds = timeVal;
-    }
-    
+    // Song seconds -> ticks through the tempo map, then retune BPM for that spot
+    seekTransportToSeconds(tempoMapRef.current, timeVal, playbackSpeedRef.current);
     setCurrentTime(timeVal);
   };
+
+  const changeSpeed = (spd: number) => {
+      const rounded = Math.round(spd * 100) / 100;
+      playbackSpeedRef.current = rounded;
+      setPlaybackSpeed(rounded);
+      setTransportTempo(tempoMapRef.current, Tone.Transport.ticks, rounded);
+  };
   
   const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const spd = parseFloat(e.target.value);
-      setPlaybackSpeed(spd);
-      if (baseBpm) {
-          Tone.Transport.bpm.value = baseBpm * spd;
+      changeSpeed(parseFloat(e.target.value));
+  };
+
+  const toggleTimeMode = () => {
+      const next = timeModeRef.current === 'clock' ? 'bars' : 'clock';
+      timeModeRef.current = next;
+      setTimeMode(next);
+      localStorage.setItem(STORAGE_KEY_TIME_MODE, next);
+  };
+
+  const cycleStaffView = () => {
+    const index = STAFF_VIEW_MODES.findIndex(m => m.value === staffView);
+    const next = STAFF_VIEW_MODES[(index + 1) % STAFF_VIEW_MODES.length].value;
+    setStaffView(next);
+    localStorage.setItem(STORAGE_KEY_STAFF_VIEW, next);
+  };
+
+  // --- A–B Loop ---
+  const updateLoop = (region: LoopRegion | null, enabled: boolean) => {
+    loopRegionRef.current = region;
+    setLoopRegion(region);
+    setLoopEnabled(enabled);
+    applyTransportLoop(region, enabled);
+    saveSongSettings(songKeyRef.current, { loop: region, loopEnabled: enabled });
+  };
+
+  const setLoopDraft = (ticks: number | null) => {
+    loopDraftStartRef.current = ticks;
+    setLoopDraftStart(ticks);
+  };
+
+  const markLoopA = (ticks: number) => {
+    const region = loopRegionRef.current;
+    if (region) {
+      updateLoop(makeLoopRegion(ticks, region.endTicks, Tone.Transport.PPQ), loopEnabled);
+    } else {
+      setLoopDraft(ticks);
+    }
+  };
+
+  const markLoopB = (ticks: number) => {
+    const start = loopRegionRef.current?.startTicks ?? loopDraftStartRef.current ?? 0;
+    const region = makeLoopRegion(start, ticks, Tone.Transport.PPQ);
+    if (!region) return;
+    setLoopDraft(null);
+    updateLoop(region, true);
+  };
+
+  const clearLoop = () => {
+    setLoopDraft(null);
+    updateLoop(null, false);
+  };
+
+  const updateTrainer = (patch: Partial<SpeedTrainer>) => {
+    const next = { ...trainerRef.current, ...patch };
+    trainerRef.current = next;
+    setTrainer(next);
+    saveSongSettings(songKeyRef.current, { trainer: next });
+    if (patch.enabled) {
+      // Turning the trainer on restarts the ramp from its start speed
+      cleanRepsRef.current = 0;
+      setCleanReps(0);
+      changeSpeed(next.startSpeed);
+    }
+  };
+
+  // Called once per pass through the loop section
+  const handleLoopRepeat = () => {
+    // Each pass through the section is its own scored run: report the one just played, score the next from the top
+    const scoring = scoringRef.current !== null;
+    finishScoring();
+    const loop = loopRegionRef.current;
+    if (practiceRef.current && loop) notePracticeLoop(practiceRef.current, loop);
+
+    const clean = repErrorsRef.current === 0;
+    repErrorsRef.current = 0;
+
+    const trainer = trainerRef.current;
+    if (trainer.enabled && clean) {
+      let reps = cleanRepsRef.current + 1;
+      const nextSpeed = nextTrainerSpeed(trainer, playbackSpeedRef.current, reps);
+      if (nextSpeed !== playbackSpeedRef.current) {
+        changeSpeed(nextSpeed);
+        reps = 0;
       }
+      cleanRepsRef.current = reps;
+      setCleanReps(reps);
+    }
+
+    // After the trainer, so the next run is timed at the speed it's played at
+    if (scoring && loop) startScoringRun(loop.startTicks);
   };
 
   const handleWaterfallClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!isReady || !waterfallRef.current) return;
     
     const rect = waterfallRef.current.getBoundingClientRect();
+
+    // Section marker labels seek to their section
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const marker = markerHitsRef.current.find(m => x >= m.x && x <= m.x + m.w && y >= m.y && y <= m.y + m.h);
+    if (marker) {
+      seekToTicks(marker.ticks);
+      return;
+    }
+
+    if (e.shiftKey) {
+      // Shift-click marks a loop point at the time under the cursor
+      const ticksPerSecond = (Tone.Transport.bpm.value * Tone.Transport.PPQ) / 60;
+      const ticksAbove = ((rect.bottom - e.clientY) / rect.height) * NOTES_VISIBLE_DURATION * ticksPerSecond;
+      const ticks = Tone.Transport.ticks + ticksAbove;
+      if (loopDraftStartRef.current === null) {
+        if (loopRegionRef.current) updateLoop(null, false);
+        setLoopDraft(ticks);
+      } else {
+        markLoopB(ticks);
+      }
+      return;
+    }
+
     const clickX = e.clientX - rect.left;
     const width = rect.width;
     const clickRatio = clickX / width;
@@ -727,70 +1929,441 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
     navigate('/');
   }; */
 
-  const formatTime = (s: number) => {
-    const mins = Math.floor(s / 60);
-    const secs = Math.floor(s % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  // --- Queue ---
+  // Another song on the same audio engine: no new sampler, no second "Start Player"
+  const switchSong = (id: string, autoplay: boolean) => {
+    if (id === songKeyRef.current) {
+      seekToTicks(0);
+      if (autoplay) {
+        startPlaybackRef.current();
+        setIsPlaying(true);
+      }
+      return;
+    }
+    autoplayRef.current = autoplay;
+    savePractice(true);
+    Tone.Transport.stop();
+    setIsPlaying(false);
+    setIsReady(false);
+    setLoadingError(null);
+    setLoadDiagnostics([]);
+    setCurrentTime(0);
+    navigate(playerPath(id));
+  };
+
+  const skipSong = (step: 1 | -1) => {
+    const next = songKeyRef.current ? queuedAfter(queueRef.current, songKeyRef.current, step) : null;
+    if (next) switchSong(next, Tone.Transport.state === 'started');
+  };
+
+  // Reaching the end of the song moves on through the queue; loops & takes being recorded keep going
+  const handleSongEnd = () => {
+    if (Tone.Transport.loop || recordingRef.current) return;
+    Tone.Transport.pause();
+    setIsPlaying(false);
+    // A scored run ends here with its report; the queue waits
+    if (scoringRef.current) return;
+    const next = songKeyRef.current ? queuedAfter(queueRef.current, songKeyRef.current, 1, true) : null;
+    if (next) switchSong(next, true);
+  };
+
+  const updateQueue = (next: PlayQueue) => {
+    queueRef.current = next;
+    setQueue(next);
+    saveQueue(next);
   };
 
   const handleUploadNew = () => {
     fileInputRef.current?.click();
   };
 
+  // --- Hands ---
+  // Playback reads the modes as it goes, but fingering, wait mode's chords & the staff follow the hands,
+  // so the notes and schedule are rebuilt (and the shown take with them)
+  const updateHands = (next: HandSetup) => {
+    handsRef.current = next;
+    setHands(next);
+    if (songKeyRef.current) saveSongSettings(songKeyRef.current, { hands: next });
+    rebuildPlayback();
+  };
+
+  // Muting a hand leaves it on screen for the student to play
+  const toggleHandMute = (hand: Hand) => {
+    const { modes } = handsRef.current;
+    updateHands({ ...handsRef.current, modes: { ...modes, [hand]: modes[hand] === 'listen' ? 'play' : 'listen' } });
+  };
+
+  // --- Computer Keyboard ---
+
+  const changePianoOctave = (octave: number) => {
+    const next = Math.min(MAX_PIANO_OCTAVE, Math.max(MIN_PIANO_OCTAVE, octave));
+    releaseComputerKeys();
+    setPianoOctave(next);
+    localStorage.setItem(STORAGE_KEY_PIANO_OCTAVE, String(next));
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'play-pause': togglePlay(); break;
+      case 'skip-back': skipBackward(); break;
+      case 'skip-forward': skipForward(); break;
+      case 'speed-down': changeSpeed(Math.max(MIN_SPEED, playbackSpeedRef.current - 0.1)); break;
+      case 'speed-up': changeSpeed(Math.min(MAX_SPEED, playbackSpeedRef.current + 0.1)); break;
+      case 'loop-toggle':
+        if (loopRegionRef.current) updateLoop(loopRegionRef.current, !loopEnabled);
+        break;
+      case 'mute-left-hand': toggleHandMute('left'); break;
+      case 'mute-right-hand': toggleHandMute('right'); break;
+      case 'octave-down': changePianoOctave(pianoOctave - 1); break;
+      case 'octave-up': changePianoOctave(pianoOctave + 1); break;
+      case 'previous-song': skipSong(-1); break;
+      case 'next-song': skipSong(1); break;
+    }
+  };
+
+  const releaseComputerKeys = () => {
+    heldPianoKeysRef.current.forEach(midi => handleInputNoteOff(midi));
+    heldPianoKeysRef.current.clear();
+  };
+
+  const handleComputerKey = (e: Event) => {
+    if (e.type === 'blur') {
+      releaseComputerKeys();
+      return;
+    }
+    if (!(e instanceof KeyboardEvent)) return;
+
+    // A key let go always releases its note, even if focus moved in between
+    if (e.type === 'keyup') {
+      const midi = heldPianoKeysRef.current.get(e.code);
+      if (midi !== undefined) {
+        heldPianoKeysRef.current.delete(e.code);
+        handleInputNoteOff(midi);
+      }
+      return;
+    }
+
+    if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const action = shortcutFor(shortcuts, e.code);
+    if (action) {
+      e.preventDefault();
+      if (e.repeat && !REPEATABLE_ACTIONS.includes(action)) return;
+      runShortcut(action);
+      return;
+    }
+
+    if (!keyboardPiano) return;
+    const midi = pianoKeyMidi(e.code, pianoOctave);
+    if (midi === null) return;
+    e.preventDefault();
+    if (e.repeat || heldPianoKeysRef.current.has(e.code) || midi < 21 || midi > 108) return;
+    heldPianoKeysRef.current.set(e.code, midi);
+    handleInputNoteOn(midi, ON_SCREEN_VELOCITY);
+  };
+
+  const changeShortcuts = (next: Shortcuts) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  const changeKeyboardPiano = (enabled: boolean) => {
+    if (!enabled) releaseComputerKeys();
+    setKeyboardPiano(enabled);
+    localStorage.setItem(STORAGE_KEY_KEYBOARD_PIANO, String(enabled));
+  };
+
+  // QWERTY letters drawn on the keys they play
+  const pianoKeyLabels = React.useMemo(() => {
+    const labels = new Map<number, string>();
+    if (!keyboardPiano) return labels;
+    Object.keys(PIANO_KEYS).forEach(code => {
+      const midi = pianoKeyMidi(code, pianoOctave);
+      if (midi !== null) labels.set(midi, keyLabel(code));
+    });
+    return labels;
+  }, [keyboardPiano, pianoOctave]);
+
+  const percussionWidth = drumLanes.length * DRUM_LANE_WIDTH;
+
   return (
     <div className="player-container">
       <input 
         type="file" 
         ref={fileInputRef} 
-        accept=".mid,.midi" 
+        accept={SONG_FILE_ACCEPT}
         style={{ display: 'none' }} 
         onChange={(e) => {
           const f = e.target.files?.[0];
+          e.target.value = '';
           if (f) {
-            Tone.Transport.stop();
-            setIsPlaying(false);
-            setIsReady(false);
-            setLoadingError(null);
-            setCurrentTime(0);
-            searchIndexRef.current = 0;
-            onSelectFile(f);
+            // Uploads land in the library, then play from there
+            addSongFile(f).then(
+              (song) => switchSong(song.id, false),
+              (err) => {
+                console.error("Failed to add song", err);
+                if (err instanceof MidiFileError) {
+                  setLoadDiagnostics(err.diagnostics);
+                  setLoadingError("This file can't be played.");
+                } else {
+                  setLoadingError("Failed to read the song file.");
+                }
+              }
+            );
           }
         }}
       />
 
       <div className="stage">
-        <div className="waterfall-area" ref={waterfallRef} onClick={handleWaterfallClick}>
-          <canvas ref={canvasRef} style={{ width: '100%', height: '100%' }} />
+        {grandStaff && staffView !== 'off' && (
+          <StaffView
+            staff={grandStaff}
+            mode={staffView}
+            getTicks={() => Tone.Transport.ticks}
+            onSeek={seekToTicks}
+            style={{ marginRight: percussionWidth }}
+          />
+        )}
+
+        {/* The percussion lane takes the right edge; the waterfall & keys stay aligned beside it */}
+        <div
+          className={`waterfall-area ${grandStaff && staffView === 'replace' ? 'replaced' : ''}`}
+          ref={waterfallRef}
+          onClick={handleWaterfallClick}
+          style={{ marginRight: percussionWidth }}
+        >
+          <canvas ref={canvasRef} className="waterfall-overlay" />
         </div>
 
-        <div className="keyboard-deck" ref={containerRef}>
-            <Piano
+        {drumLanes.length > 0 && (
+          <div className="percussion-lane" style={{ width: percussionWidth }}>
+            <canvas ref={drumCanvasRef} className="percussion-hits" />
+            <div className="percussion-pads">
+              {drumLanes.map(midi => (
+                <div key={midi} className={`percussion-pad ${activeDrums.has(midi) ? 'active' : ''}`} title={`${drumName(midi)} (${midi})`}>
+                  {drumShortName(midi)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {loadWarnings.length > 0 && (
+          <div className="load-warnings">
+            <ul>
+              {loadWarnings.map((d, i) => <li key={`${d.code}-${i}`}>{d.message}</li>)}
+            </ul>
+            <button className="btn-icon" onClick={() => setLoadWarnings([])} title="Dismiss">✕</button>
+          </div>
+        )}
+
+        {showTrackPanel && (
+          <TrackPanel
+            tracks={tracks}
+            mixes={trackMixes}
+            instruments={instrumentBanks}
+            maxOctaveShift={MAX_OCTAVE_SHIFT}
+            onChange={updateTrackMix}
+            onClose={() => setShowTrackPanel(false)}
+          />
+        )}
+
+        {showLoopPanel && (
+          <LoopPanel
+            region={loopRegion}
+            enabled={loopEnabled}
+            pendingStart={loopDraftStart}
+            formatTicks={(t) => timeMode === 'bars'
+              ? formatBarBeat(ticksToBarBeat(tempoMap, t))
+              : formatTime(ticksToSeconds(tempoMap, t))}
+            onMarkA={() => markLoopA(Tone.Transport.ticks)}
+            onMarkB={() => markLoopB(Tone.Transport.ticks)}
+            onToggle={() => updateLoop(loopRegion, !loopEnabled)}
+            onClear={clearLoop}
+            trainer={trainer}
+            cleanReps={cleanReps}
+            playbackSpeed={playbackSpeed}
+            onTrainerChange={updateTrainer}
+            onClose={() => setShowLoopPanel(false)}
+          />
+        )}
+
+        {showLabelsPanel && (
+          <LabelsPanel
+            keyMode={keyLabelMode}
+            noteMode={noteLabelMode}
+            currentKey={currentKey}
+            onKeyModeChange={changeKeyLabelMode}
+            onNoteModeChange={changeNoteLabelMode}
+            onClose={() => setShowLabelsPanel(false)}
+          />
+        )}
+
+        {showMetronomePanel && (
+          <MetronomePanel
+            settings={metronome}
+            meter={meterAt(tempoMap, secondsToTicks(tempoMap, currentTime))}
+            onChange={updateMetronome}
+            onClose={() => setShowMetronomePanel(false)}
+          />
+        )}
+
+        {showDynamicsPanel && (
+          <DynamicsPanel
+            curve={velocityCurve}
+            showGraph={showDynamicsGraph}
+            onCurveChange={changeVelocityCurve}
+            onShowGraphChange={changeShowDynamicsGraph}
+            onClose={() => setShowDynamicsPanel(false)}
+          />
+        )}
+
+        {showQueuePanel && (
+          <QueuePanel
+            queue={queue}
+            titles={queueTitles}
+            currentId={songId}
+            onPlay={(id) => switchSong(id, true)}
+            onShuffleChange={(shuffle) => updateQueue(setShuffle(queue, shuffle, songId))}
+            onRepeatChange={(repeat: RepeatMode) => updateQueue({ ...queue, repeat })}
+            onClose={() => setShowQueuePanel(false)}
+          />
+        )}
+
+        {showHandsPanel && (
+          <HandsPanel
+            tracks={tracks.filter(t => !t.percussion && t.noteCount > 0)}
+            setup={hands}
+            onChange={updateHands}
+            onClose={() => setShowHandsPanel(false)}
+          />
+        )}
+
+        {showKeyboardPanel && (
+          <KeyboardPanel
+            shortcuts={shortcuts}
+            pianoEnabled={keyboardPiano}
+            octave={pianoOctave}
+            onShortcutsChange={changeShortcuts}
+            onPianoEnabledChange={changeKeyboardPiano}
+            onOctaveChange={changePianoOctave}
+            onClose={() => setShowKeyboardPanel(false)}
+          />
+        )}
+
+        {showScorePanel && (
+          <ScorePanel
+            windows={scoringWindows}
+            isScoring={isScoring}
+            live={liveScore}
+            hasReport={scoreReport !== null}
+            onWindowsChange={updateScoringWindows}
+            onToggleScoring={() => (isScoring ? finishScoring() : beginScoring())}
+            onShowReport={() => setShowScoreReport(true)}
+            onClose={() => setShowScorePanel(false)}
+          />
+        )}
+
+        {showScoreReport && scoreReport && (
+          <ScoreSummary
+            report={scoreReport}
+            onSeek={(ticks) => {
+              seekToTicks(ticks);
+              setShowScoreReport(false);
+            }}
+            onClose={() => setShowScoreReport(false)}
+          />
+        )}
+
+        {showTakesPanel && (
+          <TakesPanel
+            takes={takes}
+            activeTakeId={activeTakeId}
+            isRecording={isRecording}
+            recordWithSong={recordWithSong}
+            takeAudible={takeAudible}
+            formatTicks={(t) => timeMode === 'bars'
+              ? formatBarBeat(ticksToBarBeat(tempoMap, t))
+              : formatTime(ticksToSeconds(tempoMap, t))}
+            onToggleRecording={toggleRecording}
+            onRecordWithSongChange={changeRecordWithSong}
+            onTakeAudibleChange={changeTakeAudible}
+            onShowTake={(id) => showTake(takes.find(t => t.id === id) ?? null)}
+            onExportTake={exportTake}
+            onDeleteTake={removeTake}
+            onClose={() => setShowTakesPanel(false)}
+          />
+        )}
+
+        {showExportPanel && (
+          <ExportPanel
+            songTitle={songTitle}
+            playbackSpeed={playbackSpeed}
+            estimatedSeconds={duration / playbackSpeed}
+            onRender={renderExport}
+            onClose={() => setShowExportPanel(false)}
+          />
+        )}
+
+        {waitingChord && (
+          <div className="practice-banner">
+            Waiting for {waitingChord.pitches.map(p => Tone.Frequency(p, "midi").toNote()).join(' · ')}
+          </div>
+        )}
+
+        <div className="keyboard-deck" ref={containerRef} style={{ marginRight: percussionWidth }}>
+            <ControlledPiano
               noteRange={{ first: activeRange.min, last: activeRange.max }}
-              playNote={(midiNumber: number) => {
-                // Play sound if clicked manually
-                if (samplerRef.current) {
-                  const noteName = Tone.Frequency(midiNumber, "midi").toNote();
-                  samplerRef.current.triggerAttack(noteName, Tone.now());
-                  setActiveKeys(prev => new Set(prev).add(midiNumber));
-                }
-              }}
-              stopNote={(midiNumber: number) => {
-                if (samplerRef.current) {
-                  const noteName = Tone.Frequency(midiNumber, "midi").toNote();
-                  samplerRef.current.triggerRelease(noteName, Tone.now());
-                  setActiveKeys(prev => {
-                    const s = new Set(prev);
-                    s.delete(midiNumber);
-                    return s;
-                  });
-                }
-              }}
+              // Lit keys are the song's notes & what's being played; only the input handlers make sound,
+              // so muted tracks, a hand left to the player and unmonitored input stay silent
+              playNote={() => {}}
+              stopNote={() => {}}
               width={containerWidth}
-              activeNotes={Array.from(activeKeys)}
+              renderNoteLabel={({ midiNumber, isActive, isAccidental }: { midiNumber: number; isActive: boolean; isAccidental: boolean }) => {
+                const shortcut = pianoKeyLabels.get(midiNumber);
+                const shortcutLabel = shortcut && <div className={`key-shortcut ${isAccidental ? 'accidental' : ''}`}>{shortcut}</div>;
+                if (keyLabelMode === 'none') return shortcutLabel || null;
+                const pitch = NOTE_NAMES[midiNumber % 12];
+                const text = noteLabel(keyLabelMode, midiNumber, {
+                  key: currentKey,
+                  // Octave numbers only on the Cs, to keep the keys readable
+                  name: midiNumber % 12 === 0 ? `${pitch}${Math.floor(midiNumber / 12) - 1}` : pitch,
+                  finger: isActive ? activeFingers.get(midiNumber) : undefined,
+                });
+                return (
+                  <>
+                    {shortcutLabel}
+                    {text && <div className={`key-label ${isAccidental ? 'accidental' : ''} ${isActive ? 'active' : ''}`}>{text}</div>}
+                  </>
+                );
+              }}
+              onPlayNoteInput={pressScreenKey}
+              onStopNoteInput={releaseScreenKey}
+              activeNotes={Array.from(new Set([...activeKeys, ...inputKeys]))}
               // Custom rendering could be added here if we wanted to match exact colors
               // but default react-piano styles should be fine given the user asked for it.
               // We might need to override CSS for dark mode look.
             />
+            <div className="pedal-indicator" ref={pedalIndicatorRef}>
+              <span data-pedal="sustain" title="Sustain pedal (CC64)">Ped.</span>
+              <span data-pedal="sostenuto" title="Sostenuto pedal (CC66)">Sost.</span>
+              <span data-pedal="soft" title="Soft pedal (CC67)">u.c.</span>
+            </div>
+            {wrongKeys.size > 0 && (
+              <div className="key-flags">
+                {Array.from(wrongKeys).map(midi => {
+                  const key = keyConfigMap.get(midi);
+                  if (!key) return null;
+                  return (
+                    <div
+                      key={midi}
+                      className={`key-flag wrong ${key.type}`}
+                      style={{ left: `${key.left}%`, width: `${key.width}%` }}
+                    />
+                  );
+                })}
+              </div>
+            )}
         </div>
       </div>
 
@@ -802,18 +2375,41 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
         </div>
         <div className="hud-group controls-wrapper" style={{ opacity: !isReady ? 0.3 : 1, pointerEvents: !isReady ? 'none' : 'auto' }}>
             <div className="controls-group">
+              <button
+                className="control-btn mini"
+                onClick={() => skipSong(-1)}
+                disabled={!songId || !queuedAfter(queue, songId, -1)}
+                title="Previous song in the queue"
+              >
+                ⏮
+              </button>
               <button className="control-btn mini" onClick={skipBackward}>↺</button>
               <button className="control-btn primary mini" onClick={togglePlay}>
                 {isPlaying ? '⏸' : '▶'}
               </button>
               <button className="control-btn mini" onClick={skipForward}>↻</button>
+              <button
+                className="control-btn mini"
+                onClick={() => skipSong(1)}
+                disabled={!songId || !queuedAfter(queue, songId, 1)}
+                title="Next song in the queue"
+              >
+                ⏭
+              </button>
+              {(metronome.enabled || metronome.countInBars > 0) && (
+                <span
+                  className={`beat-pulse ${countingIn ? 'counting' : ''}`}
+                  ref={beatPulseRef}
+                  title={countingIn ? 'Counting in…' : 'Metronome beat'}
+                />
+              )}
               
               <div className="speed-control" style={{ marginLeft: '8px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-                  <span style={{ fontSize: '11px', color: '#64748b', fontWeight: '500', width: '28px' }}>{playbackSpeed.toFixed(1)}x</span>
+                  <span style={{ fontSize: '11px', color: '#64748b', fontWeight: '500', width: '32px' }}>{Number(playbackSpeed.toFixed(2))}x</span>
                   <input 
                       type="range" 
-                      min="0.2" 
-                      max="2.0" 
+                      min={MIN_SPEED}
+                      max={MAX_SPEED}
                       step="0.1" 
                       value={playbackSpeed}
                       onChange={handleSpeedChange}
@@ -821,20 +2417,186 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
                   />
               </div>
 
+              <div className="transpose-control" title="Transpose the song (semitones)">
+                  <button className="control-btn mini" onClick={() => changeTranspose(transpose - 1)} disabled={transpose <= -MAX_TRANSPOSE}>♭</button>
+                  <span
+                    className={`transpose-value ${transpose !== 0 ? 'on' : ''}`}
+                    onClick={() => changeTranspose(0)}
+                    title="Transpose (click to reset)"
+                  >
+                    {formatSemitones(transpose)}
+                  </span>
+                  <button className="control-btn mini" onClick={() => changeTranspose(transpose + 1)} disabled={transpose >= MAX_TRANSPOSE}>♯</button>
+                  {foldedNotes > 0 && (
+                    <span
+                      className="transpose-folded"
+                      title={`${foldedNotes} notes fell outside A0–C8 and are played an octave (or more) back inside; they're drawn with a dashed outline`}
+                    >
+                      ⚠ {foldedNotes}
+                    </span>
+                  )}
+              </div>
+
               <div className="scrubber-compact">
-                <span className="time-current" ref={timeDisplayRef}>{formatTime(currentTime)}</span>
-                <input 
-                  type="range" 
-                  min={0} 
-                  max={duration || 1} 
-                  step={0.1}
-                  defaultValue={0}
-                  ref={scrubberRef}
-                  onChange={handleSeek}
-                  className="progress-track"
-                  style={{ width: '200px' }}
+                <span
+                  className="time-current clickable"
+                  ref={timeDisplayRef}
+                  onClick={toggleTimeMode}
+                  title="Toggle mm:ss / bar.beat"
+                >
+                  {timeMode === 'bars'
+                    ? formatBarBeat(ticksToBarBeat(tempoMap, secondsToTicks(tempoMap, currentTime)))
+                    : formatTime(currentTime)}
+                </span>
+                <div className="scrubber-track-wrap">
+                  {loopRegion && duration > 0 && (
+                    <div
+                      className={`scrubber-loop ${loopEnabled ? 'on' : ''}`}
+                      style={{
+                        left: `${(ticksToSeconds(tempoMap, loopRegion.startTicks) / duration) * 100}%`,
+                        width: `${((ticksToSeconds(tempoMap, loopRegion.endTicks) - ticksToSeconds(tempoMap, loopRegion.startTicks)) / duration) * 100}%`,
+                      }}
+                    />
+                  )}
+                  {duration > 0 && sectionMarkers.map(marker => (
+                    <button
+                      key={`${marker.ticks}:${marker.text}`}
+                      className="scrubber-marker"
+                      style={{ left: `${(ticksToSeconds(tempoMap, marker.ticks) / duration) * 100}%` }}
+                      onClick={() => seekToTicks(marker.ticks)}
+                      title={marker.text}
+                    />
+                  ))}
+                  <input 
+                    type="range" 
+                    min={0} 
+                    max={duration || 1} 
+                    step={0.1}
+                    defaultValue={0}
+                    ref={scrubberRef}
+                    onChange={handleSeek}
+                    className="progress-track"
+                    style={{ width: '200px' }}
+                  />
+                  {showDynamicsGraph && dynamics.length > 0 && (
+                    <svg className="scrubber-dynamics" viewBox={`0 0 ${dynamics.length} 1`} preserveAspectRatio="none">
+                      <path d={`M0 1 ${dynamics.map((v, i) => `L${i} ${1 - v} L${i + 1} ${1 - v}`).join(' ')} L${dynamics.length} 1 Z`} />
+                    </svg>
+                  )}
+                </div>
+                <span className="time-total">
+                  {timeMode === 'bars'
+                    ? `${ticksToBarBeat(tempoMap, totalTicks).bar} bars`
+                    : formatTime(duration)}
+                </span>
+              </div>
+
+              <div className="practice-controls-compact">
+                <MidiInputControl
+                  status={midiInput.status}
+                  devices={midiInput.devices}
+                  selectedId={midiInput.selectedId}
+                  activeDevice={midiInput.activeDevice}
+                  onSelectDevice={midiInput.selectDevice}
                 />
-                <span className="time-total">{formatTime(duration)}</span>
+                <button
+                  className={`control-btn mini ${monitorInput ? 'active' : ''}`}
+                  onClick={toggleMonitorInput}
+                  title="Play MIDI input through the piano sampler"
+                >
+                  🔈
+                </button>
+                <button
+                  className={`control-btn mini ${showLoopPanel || (loopEnabled && loopRegion) ? 'active' : ''}`}
+                  onClick={() => setShowLoopPanel(v => !v)}
+                  title="A–B loop & speed trainer"
+                >
+                  🔁
+                </button>
+                <button
+                  className={`control-btn mini ${showTrackPanel ? 'active' : ''}`}
+                  onClick={() => setShowTrackPanel(v => !v)}
+                  title="Tracks & mixer"
+                >
+                  🎚
+                </button>
+                <button
+                  className={`control-btn mini ${showHandsPanel || hands.modes.left !== 'listen' || hands.modes.right !== 'listen' ? 'active' : ''}`}
+                  onClick={() => setShowHandsPanel(v => !v)}
+                  title="Hands: listen, play or hide each hand"
+                >
+                  🖐
+                </button>
+                <button
+                  className={`control-btn mini ${staffView !== 'off' ? 'active' : ''}`}
+                  onClick={cycleStaffView}
+                  title={STAFF_VIEW_MODES.find(m => m.value === staffView)?.title}
+                >
+                  🎼
+                </button>
+                <button
+                  className={`control-btn mini ${waitMode ? 'active' : ''}`}
+                  onClick={toggleWaitMode}
+                  title="Wait mode: pause at each chord until you play it"
+                >
+                  ⏳
+                </button>
+                <button
+                  className={`control-btn mini ${showLabelsPanel || keyLabelMode !== 'none' || noteLabelMode !== 'none' ? 'active' : ''}`}
+                  onClick={() => setShowLabelsPanel(v => !v)}
+                  title="Labels on keys & notes"
+                >
+                  🔤
+                </button>
+                <button
+                  className={`control-btn mini ${showMetronomePanel || metronome.enabled ? 'active' : ''}`}
+                  onClick={() => setShowMetronomePanel(v => !v)}
+                  title="Metronome & count-in"
+                >
+                  🥁
+                </button>
+                <button
+                  className={`control-btn mini ${showDynamicsPanel || velocityCurve !== 'natural' ? 'active' : ''}`}
+                  onClick={() => setShowDynamicsPanel(v => !v)}
+                  title="Dynamics & velocity curve"
+                >
+                  📈
+                </button>
+                <button
+                  className={`control-btn mini ${showQueuePanel || queue.shuffle || queue.repeat !== 'off' ? 'active' : ''}`}
+                  onClick={() => setShowQueuePanel(v => !v)}
+                  title="Queue, shuffle & repeat"
+                >
+                  ☰
+                </button>
+                <button
+                  className={`control-btn mini ${showKeyboardPanel || keyboardPiano ? 'active' : ''}`}
+                  onClick={() => setShowKeyboardPanel(v => !v)}
+                  title="Computer keyboard: piano & shortcuts"
+                >
+                  ⌨
+                </button>
+                <button
+                  className={`control-btn mini ${showScorePanel || isScoring ? 'active' : ''}`}
+                  onClick={() => setShowScorePanel(v => !v)}
+                  title="Score a run against the song"
+                >
+                  🎯
+                </button>
+                <button
+                  className={`control-btn mini ${isRecording ? 'recording' : showTakesPanel ? 'active' : ''}`}
+                  onClick={() => setShowTakesPanel(v => !v)}
+                  title={isRecording ? 'Recording… (open takes)' : 'Record & review takes'}
+                >
+                  ⏺
+                </button>
+                <button
+                  className={`control-btn mini ${showExportPanel ? 'active' : ''}`}
+                  onClick={() => setShowExportPanel(v => !v)}
+                  title="Export as WAV"
+                >
+                  💾
+                </button>
               </div>
             </div>
         </div>
@@ -842,7 +2604,7 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
         <button 
           className="btn-icon" 
           onClick={handleUploadNew}
-          title="Upload new MIDI file"
+          title="Upload a new song (MIDI, MusicXML or ABC)"
         >
           📁
         </button>
@@ -877,6 +2639,13 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
             <div style={{ textAlign: 'center' }}>
               <h2 style={{color: '#ef4444'}}>Error</h2>
               <p>{loadingError}</p>
+              {loadDiagnostics.length > 0 && (
+                <ul className="load-diagnostics">
+                  {loadDiagnostics.map((d, i) => (
+                    <li key={`${d.code}-${i}`} className={d.severity}>{d.message}</li>
+                  ))}
+                </ul>
+              )}
               
               <div style={{ marginTop: '20px', display: 'flex', gap: '10px', justifyContent: 'center' }}>
                 <button 
@@ -898,7 +2667,16 @@ const Player: React.FC<PlayerProps> = ({ file, onSelectFile }) => {
           ) : (
              <div style={{ textAlign: 'center' }}>
                 <h2>Loading Sounds...</h2>
-                <p style={{color: '#888'}}>Fetching Instruments & Parsing MIDI</p>
+                <p style={{color: '#888'}}>
+                  {loadProgress === null
+                    ? 'Fetching Instruments & Parsing MIDI'
+                    : `Parsing MIDI… ${Math.round(loadProgress * 100)}%`}
+                </p>
+                {loadProgress !== null && (
+                  <div className="load-progress">
+                    <div style={{ width: `${loadProgress * 100}%` }} />
+                  </div>
+                )}
                 <div style={{ marginTop: '20px', width: '40px', height: '40px', border: '3px solid rgba(255,255,255,0.1)', borderTopColor: '#fff', borderRadius: '50%', animation: 'spin 1s linear infinite' }} />
                 <style>{`@keyframes spin {100% {transform: rotate(360deg); }}`}</style>
              </div>
@@ -13,15 +13,26 @@ declare module 'react-piano' {
     stopNote?: (midiNumber: number) => void;
     onPlayNoteInput?: (midiNumber: number) => void;
     onStopNoteInput?: (midiNumber: number) => void;
-    renderNoteLabel?: (params: { keyboardShortcut: any; midiNumber: number; isActive: boolean; isAccidental: boolean }) => React.ReactNode;
+    renderNoteLabel?: (params: { keyboardShortcut?: string; midiNumber: number; isActive: boolean; isAccidental: boolean }) => React.ReactNode;
     className?: string;
     disabled?: boolean;
     width?: number;
-    keyboardShortcuts?: any[];
+    keyboardShortcuts?: { key: string; midiNumber: number }[];
   }
 
   export class Piano extends React.Component<PianoProps> {}
 
+  // Keys light exactly as `activeNotes` says; presses only reach the input callbacks
+  export interface ControlledPianoProps extends PianoProps {
+    activeNotes: number[];
+    playNote: (midiNumber: number) => void;
+    stopNote: (midiNumber: number) => void;
+    onPlayNoteInput: (midiNumber: number) => void;
+    onStopNoteInput: (midiNumber: number) => void;
+  }
+
+  export class ControlledPiano extends React.Component<ControlledPianoProps> {}
+
   export const MidiNumbers: {
     fromNote: (note: string) => number;
   };